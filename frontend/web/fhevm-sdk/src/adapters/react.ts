@@ -11,5 +11,7 @@ export { useFhevm } from './useFhevm.js';
 export { useContract } from './useContract.js';
 export { useDecrypt } from './useDecrypt.js';
 export { useEncrypt } from './useEncrypt.js';
+export { usePermits } from './usePermits.js';
+export { useTransactions } from './useTransactions.js';
 
 
@@ -0,0 +1,34 @@
+/**
+ * Internal hook: one AbortController per in-flight call,
+ * all aborted by cancel() or when the component unmounts
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { linkAbortSignal } from '../core/index.js';
+
+export function useCancellation() {
+  const controllers = useRef(new Set<AbortController>());
+
+  const cancel = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  /**
+   * Start tracking a call; the controller also follows the caller's own signal
+   */
+  const begin = useCallback((signal?: AbortSignal) => {
+    const controller = new AbortController();
+    linkAbortSignal(controller, signal);
+    controllers.current.add(controller);
+    return controller;
+  }, []);
+
+  const end = useCallback((controller: AbortController) => {
+    controllers.current.delete(controller);
+  }, []);
+
+  return { begin, end, cancel };
+}
@@ -3,47 +3,68 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { ethers } from 'ethers';
+import { classifyError, FhevmAbortedError, publicDecryptAndVerify } from '../core/index.js';
+import type { FhevmCallOptions, PublicDecryptAndVerifyOptions, PublicDecryptAndVerifyResult } from '../core/index.js';
+import { useCancellation } from './useCancellation.js';
+
+type VerifyFunction = (abiEncodedClearValues: string, decryptionProof: string) => Promise<ethers.ContractTransactionResponse>;
+
+type VerifyDecryptionResult = Pick<PublicDecryptAndVerifyResult, 'decryptionResult' | 'transactionReceipt'>;
+
+interface VerifyDecryption {
+  (handles: string[], verifyFunction: VerifyFunction, options?: FhevmCallOptions): Promise<VerifyDecryptionResult>;
+  /** @deprecated `contractAddress` was never used; call `verifyDecryption(handles, verifyFunction, options)` */
+  (handles: string[], contractAddress: string, verifyFunction: VerifyFunction, options?: FhevmCallOptions): Promise<VerifyDecryptionResult>;
+}
 
 export function useDecrypt() {
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [error, setError] = useState<string>('');
+  const { begin, end, cancel } = useCancellation();
 
-  const verifyDecryption = useCallback(async (
-    handles: string[], 
-    contractAddress: string, 
-    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
-  ) => {
+  /**
+   * Public-decrypt `handles` and submit the proof, e.g. to `verifyScore` through a FhevmContract
+   */
+  const decryptAndVerify = useCallback(async (handles: string[], options: PublicDecryptAndVerifyOptions) => {
     setIsDecrypting(true);
     setError('');
-    
+    const controller = begin(options.signal);
+
     try {
-      const decryptionResult = await publicDecryptV09(handles);
-      
-      const tx = await verifyFunction(
-        decryptionResult.abiEncodedClearValues,
-        decryptionResult.decryptionProof
-      );
-      
-      const receipt = await tx.wait();
-      
-      return {
-        decryptionResult,
-        transactionReceipt: receipt
-      };
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
+      return await publicDecryptAndVerify(handles, { ...options, signal: controller.signal });
+    } catch (cause) {
+      const err = classifyError(cause);
+      if (!(err instanceof FhevmAbortedError)) {
+        setError(err instanceof Error ? err.message : 'Decryption verification failed');
+      }
       throw err;
     } finally {
+      end(controller);
       setIsDecrypting(false);
     }
-  }, []);
+  }, [begin, end]);
+
+  const verifyDecryption: VerifyDecryption = useCallback(async (
+    handles: string[],
+    ...args: [VerifyFunction, FhevmCallOptions?] | [string, VerifyFunction, FhevmCallOptions?]
+  ) => {
+    // The deprecated form passes a contract address first
+    const [verifyFunction, options] = typeof args[0] === 'string'
+      ? args.slice(1) as [VerifyFunction, FhevmCallOptions?]
+      : args as [VerifyFunction, FhevmCallOptions?];
+    const { decryptionResult, transactionReceipt } = await decryptAndVerify(handles, { ...options, submit: verifyFunction });
+    return {
+      decryptionResult,
+      transactionReceipt,
+    };
+  }, [decryptAndVerify]);
 
   return {
+    decryptAndVerify,
     verifyDecryption,
+    cancel,
     isDecrypting,
     error,
   };
 }
-
-
@@ -3,32 +3,64 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { classifyError, createEncryptedInput, FhevmAbortedError } from '../core/index.js';
+import type { EncryptedInputBuilder, EncryptedInputs, EncryptedValue, FhevmCallControl, FhevmCallOptions } from '../core/index.js';
+import { useCancellation } from './useCancellation.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
   const [error, setError] = useState<string>('');
+  const { begin, end, cancel } = useCancellation();
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
+  const fail = useCallback((cause: unknown) => {
+    const err = classifyError(cause);
+    if (!(err instanceof FhevmAbortedError)) {
+      setError(err instanceof Error ? err.message : 'Encryption failed');
+    }
+    return err;
+  }, []);
+
+  const encrypt = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    value: number,
+    options?: FhevmCallOptions
+  ): Promise<EncryptedValue> => {
     setIsEncrypting(true);
     setError('');
+    const controller = begin(options?.signal);
     
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
+      const result = await createEncryptedInput(contractAddress, userAddress, value, { ...options, signal: controller.signal });
       return result;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+    } catch (cause) {
+      throw fail(cause);
     } finally {
+      end(controller);
       setIsEncrypting(false);
     }
-  }, []);
+  }, [begin, end, fail]);
+
+  const encryptBatch = useCallback(async (builder: EncryptedInputBuilder, control?: FhevmCallControl): Promise<EncryptedInputs> => {
+    setIsEncrypting(true);
+    setError('');
+    const controller = begin(control?.signal);
+    
+    try {
+      return await builder.encrypt({ ...control, signal: controller.signal });
+    } catch (cause) {
+      throw fail(cause);
+    } finally {
+      end(controller);
+      setIsEncrypting(false);
+    }
+  }, [begin, end, fail]);
 
   return {
     encrypt,
+    encryptBatch,
+    cancel,
     isEncrypting,
     error,
   };
 }
-
-
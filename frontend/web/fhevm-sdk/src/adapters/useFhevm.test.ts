@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import { useFhevm } from './useFhevm.js';
+import { disposeAllFheInstances } from '../core/index.js';
+import type { FhevmInitStage } from '../core/index.js';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+function renderHook<T>(hook: () => T): { result: { current: T }; unmount: () => void } {
+  const result = {} as { current: T };
+  const Probe = () => {
+    result.current = hook();
+    return null;
+  };
+  const root = createRoot(document.createElement('div'));
+  act(() => root.render(createElement(Probe)));
+  return { result, unmount: () => act(() => root.unmount()) };
+}
+
+describe('useFhevm', () => {
+  afterEach(() => disposeAllFheInstances());
+
+  it('exposes the current stage and elapsed time while initializing', async () => {
+    const { result, unmount } = renderHook(() => useFhevm());
+    expect(result.current).toMatchObject({ status: 'idle', stage: null, elapsedMs: 0 });
+
+    const stages: FhevmInitStage[] = [];
+    await act(() => result.current.initialize({ mode: 'mock', onStage: ({ stage }) => stages.push(stage) }));
+
+    expect(stages).toEqual(['sdk-loaded', 'wasm-ready', 'public-key-fetched', 'instance-created']);
+    expect(result.current).toMatchObject({ status: 'ready', stage: 'instance-created', isInitialized: true });
+    expect(result.current.elapsedMs).toBeGreaterThanOrEqual(0);
+    expect(result.current.instance).not.toBeNull();
+
+    act(() => result.current.dispose(31337));
+    expect(result.current).toMatchObject({ status: 'idle', stage: null, instance: null });
+    unmount();
+  });
+
+  it('reports a failed initialization', async () => {
+    const { result, unmount } = renderHook(() => useFhevm());
+
+    await act(() => result.current.initialize({ mode: 'mock', rpcUrl: 'http://127.0.0.1:1' }));
+    expect(result.current).toMatchObject({ status: 'error', stage: 'failed', isInitialized: false });
+    expect(result.current.error).not.toBe('');
+    unmount();
+  });
+});
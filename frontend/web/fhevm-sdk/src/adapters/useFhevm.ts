@@ -2,37 +2,70 @@
  * Wagmi-like hook for FHEVM instance
  */
 
-import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { classifyError, initializeFheInstance, disposeFheInstance, sdkLogger } from '../core/index.js';
+import type { FhevmInitEvent, FhevmInitOptions, FhevmInitStage, FhevmInstance } from '../core/index.js';
+
+// How often elapsedMs refreshes while initializing
+const ELAPSED_TICK_MS = 250;
 
 export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
+  const [instance, setInstance] = useState<FhevmInstance | null>(null);
   const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
   const [error, setError] = useState<string>('');
+  const [stage, setStage] = useState<FhevmInitStage | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const startedAt = useRef(0);
+
+  // Keep elapsedMs moving between stage events, e.g. during the WASM download
+  useEffect(() => {
+    if (status !== 'loading') return;
+    const timer = setInterval(() => setElapsedMs(Date.now() - startedAt.current), ELAPSED_TICK_MS);
+    return () => clearInterval(timer);
+  }, [status]);
 
-  const initialize = useCallback(async () => {
+  const initialize = useCallback(async (options?: FhevmInitOptions) => {
     setStatus('loading');
     setError('');
-    
+    setStage(null);
+    setElapsedMs(0);
+    startedAt.current = Date.now();
+
+    const onStage = (event: FhevmInitEvent) => {
+      setStage(event.stage);
+      setElapsedMs(event.elapsedMs);
+      options?.onStage?.(event);
+    };
+
     try {
-      const fheInstance = await initializeFheInstance();
+      const fheInstance = await initializeFheInstance({ ...options, onStage });
       setInstance(fheInstance);
       setStatus('ready');
-      console.log('✅ FHEVM initialized');
-    } catch (err) {
+      sdkLogger.info('FHEVM initialized');
+    } catch (cause) {
+      const err = classifyError(cause);
       setError(err instanceof Error ? err.message : 'Unknown error');
       setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
+      sdkLogger.error('FHEVM initialization failed', err);
     }
   }, []);
 
+  const dispose = useCallback((chainId: number) => {
+    disposeFheInstance(chainId);
+    setInstance(null);
+    setStatus('idle');
+    setStage(null);
+    setElapsedMs(0);
+  }, []);
+
   return {
     instance,
     status,
+    stage,
+    elapsedMs,
     error,
     initialize,
+    dispose,
     isInitialized: status === 'ready',
   };
 }
-
-
@@ -0,0 +1,47 @@
+/**
+ * Wagmi-like hook for stored decryption permits
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import {
+  listDecryptionPermits,
+  revokeDecryptionPermit,
+  revokeAllDecryptionPermits,
+} from '../core/index.js';
+import type { DecryptionPermit } from '../core/index.js';
+
+export function usePermits(userAddress?: string) {
+  const [permits, setPermits] = useState<DecryptionPermit[]>([]);
+  const [error, setError] = useState<string>('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setPermits(await listDecryptionPermits(userAddress));
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load permits');
+    }
+  }, [userAddress]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const revoke = useCallback(async (id: string) => {
+    await revokeDecryptionPermit(id);
+    await refresh();
+  }, [refresh]);
+
+  const revokeAll = useCallback(async () => {
+    await revokeAllDecryptionPermits(userAddress);
+    await refresh();
+  }, [userAddress, refresh]);
+
+  return {
+    permits,
+    error,
+    refresh,
+    revoke,
+    revokeAll,
+  };
+}
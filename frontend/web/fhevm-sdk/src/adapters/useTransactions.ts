@@ -0,0 +1,72 @@
+/**
+ * Wagmi-like hook for tracked transactions
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ethers } from 'ethers';
+import { classifyError, TransactionManager } from '../core/index.js';
+import type { TrackedTransaction, TransactionManagerOptions } from '../core/index.js';
+
+export function useTransactions(provider?: ethers.Provider | null, options?: TransactionManagerOptions) {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const [error, setError] = useState<string>('');
+  const manager = useRef<TransactionManager | null>(null);
+  // Options apply when the manager is created for a provider
+  const initialOptions = useRef(options);
+
+  // One manager per provider; pending transactions stored by a previous page are resumed
+  useEffect(() => {
+    if (!provider) return;
+    const next = new TransactionManager(provider, initialOptions.current);
+    manager.current = next;
+    const unsubscribe = next.onChange(() => setTransactions(next.list()));
+    next.resume()
+      .then(() => setTransactions(next.list()))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to resume transactions'));
+
+    return () => {
+      unsubscribe();
+      next.dispose();
+      if (manager.current === next) manager.current = null;
+    };
+  }, [provider]);
+
+  const requireManager = useCallback((): TransactionManager => {
+    if (!manager.current) {
+      throw new Error('No provider to track transactions with');
+    }
+    return manager.current;
+  }, []);
+
+  const track = useCallback(async (response: ethers.TransactionResponse, label?: string) => {
+    return requireManager().track(response, label);
+  }, [requireManager]);
+
+  const wait = useCallback(async (hash: string) => {
+    return requireManager().wait(hash);
+  }, [requireManager]);
+
+  const replace = useCallback(async (hash: string, signer: ethers.Signer, action: 'speedUp' | 'cancel') => {
+    setError('');
+    try {
+      return await requireManager()[action](hash, signer);
+    } catch (cause) {
+      const err = classifyError(cause);
+      setError(err instanceof Error ? err.message : 'Transaction replacement failed');
+      throw err;
+    }
+  }, [requireManager]);
+
+  const speedUp = useCallback((hash: string, signer: ethers.Signer) => replace(hash, signer, 'speedUp'), [replace]);
+  const cancel = useCallback((hash: string, signer: ethers.Signer) => replace(hash, signer, 'cancel'), [replace]);
+
+  return {
+    transactions,
+    pending: transactions.filter(tx => tx.status === 'submitted' || tx.status === 'mined'),
+    track,
+    wait,
+    speedUp,
+    cancel,
+    error,
+  };
+}
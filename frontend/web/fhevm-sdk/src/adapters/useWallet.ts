@@ -3,6 +3,7 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
+import { classifyError, sdkLogger } from '../core/index.js';
 
 export function useWallet() {
   const [address, setAddress] = useState<string>('');
@@ -18,7 +19,7 @@ export function useWallet() {
     const handleChainChanged = async (chainIdHex: string) => {
       const newChainId = parseInt(chainIdHex, 16);
       setChainId(newChainId);
-      console.log('🔄 Chain changed to:', newChainId);
+      sdkLogger.info('Chain changed to', newChainId);
     };
 
     const handleAccountsChanged = (accounts: string[]) => {
@@ -59,10 +60,11 @@ export function useWallet() {
       const chainId = await window.ethereum.request({ method: 'eth_chainId' });
       setChainId(parseInt(chainId, 16));
 
-      console.log('✅ Wallet connected:', account);
-    } catch (err) {
+      sdkLogger.info('Wallet connected', account);
+    } catch (cause) {
+      const err = classifyError(cause);
       setError(err instanceof Error ? err.message : 'Connection failed');
-      console.error('❌ Wallet connection failed:', err);
+      sdkLogger.error('Wallet connection failed', err);
     } finally {
       setIsConnecting(false);
     }
@@ -73,7 +75,7 @@ export function useWallet() {
     setIsConnected(false);
     setChainId(0);
     setError('');
-    console.log('🔌 Wallet disconnected');
+    sdkLogger.info('Wallet disconnected');
   }, []);
 
   return {
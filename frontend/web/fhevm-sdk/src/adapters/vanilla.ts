@@ -0,0 +1,21 @@
+/**
+ * Vanilla JS Adapter - Universal FHEVM SDK
+ * Framework-free client and custom elements, for pages without React or Vue
+ *
+ * Import from `@fhevm-sdk/vanilla`: the main entry also loads the React hooks.
+ */
+
+// Core FHEVM functionality, so pages need a single import
+export * from '../core/index.js';
+
+export { FhevmClient } from './vanilla/client.js';
+export type {
+  FhevmClientEvents,
+  FhevmClientListener,
+  FhevmClientOperation,
+  FhevmClientOptions,
+  FhevmClientState,
+  FhevmWalletState,
+} from './vanilla/client.js';
+export { defineFhevmElements } from './vanilla/elements.js';
+export type { FheDecryptedDetail, FheEncryptedDetail, FhevmElementNames } from './vanilla/elements.js';
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FhevmClient } from './client.js';
+import { disposeAllFheInstances, FhevmAbortedError, MockFheInstance, sdkLogger } from '../../core/index.js';
+import type { FhevmClientOperation } from './client.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+
+type Ethereum = NonNullable<ConstructorParameters<typeof FhevmClient>[0]>['ethereum'];
+
+/**
+ * EIP-1193 wallet stub on the Hardhat chain; `emit` fires wallet events
+ */
+function wallet(accounts = [USER]) {
+  const handlers = new Map<string, (payload: any) => void>();
+  const ethereum = {
+    request: vi.fn(async ({ method }: { method: string }) => (method === 'eth_chainId' ? '0x7a69' : accounts)),
+    on: vi.fn((event: string, handler: (payload: any) => void) => handlers.set(event, handler)),
+    removeListener: vi.fn((event: string) => handlers.delete(event)),
+  };
+  const emit = (event: string, payload: unknown) => handlers.get(event)?.(payload);
+  return { ethereum: ethereum as unknown as Ethereum, emit, handlers };
+}
+
+describe('FhevmClient', () => {
+  afterEach(() => {
+    disposeAllFheInstances();
+    vi.restoreAllMocks();
+  });
+
+  it('connects, initializes against the mock and encrypts for the connected account', async () => {
+    const client = new FhevmClient(wallet());
+    const statuses: string[] = [];
+    const operations: FhevmClientOperation['kind'][][] = [];
+    client.on('status', status => statuses.push(status));
+    client.on('operations', ops => operations.push(ops.map(({ kind }) => kind)));
+
+    expect(await client.connect()).toEqual({ address: USER, chainId: 31337, isConnected: true, isConnecting: false });
+    const instance = await client.initialize({ mode: 'mock' });
+    expect(instance).toBeInstanceOf(MockFheInstance);
+    expect(client.isReady).toBe(true);
+    expect(statuses).toEqual(['loading', 'ready']);
+
+    const createEncryptedInput = vi.spyOn(instance as MockFheInstance, 'createEncryptedInput');
+    const { encryptedData, proof } = await client.encrypt(CONTRACT, 42);
+    expect(createEncryptedInput).toHaveBeenCalledWith(CONTRACT, USER);
+    expect(proof).toBeInstanceOf(Uint8Array);
+
+    const handle = ethers.hexlify(encryptedData);
+    expect((await client.publicDecrypt([handle])).clearValues[handle as `0x${string}`]).toBe(42n);
+    expect(operations).toEqual([['encrypt'], [], ['public-decrypt'], []]);
+    expect(client.state.error).toBe('');
+  });
+
+  it('aborts operations in flight on cancel() without reporting an error', async () => {
+    const client = new FhevmClient(wallet());
+    const instance = await client.initialize({ mode: 'mock' }) as MockFheInstance;
+    const createEncryptedInput = instance.createEncryptedInput.bind(instance);
+    vi.spyOn(instance, 'createEncryptedInput').mockImplementation((contractAddress, userAddress) =>
+      Object.assign(createEncryptedInput(contractAddress, userAddress), { encrypt: () => new Promise<never>(() => {}) })
+    );
+
+    const pending = client.encrypt(CONTRACT, 42);
+    await vi.waitFor(() => expect(client.state.operations).toHaveLength(1));
+
+    client.cancel();
+    await expect(pending).rejects.toBeInstanceOf(FhevmAbortedError);
+    expect(client.state).toMatchObject({ operations: [], error: '' });
+  });
+
+  it('reports a missing wallet', async () => {
+    const client = new FhevmClient();
+    await client.initialize({ mode: 'mock' });
+
+    await expect(client.encrypt(CONTRACT, 42)).rejects.toThrow('MetaMask not found. Please install MetaMask.');
+    expect(client.state.error).toBe('MetaMask not found. Please install MetaMask.');
+  });
+
+  it('follows wallet events until destroyed', async () => {
+    const { ethereum, emit, handlers } = wallet();
+    const client = new FhevmClient({ ethereum });
+    await client.connect();
+
+    emit('chainChanged', '0xaa36a7');
+    expect(client.state.wallet.chainId).toBe(11155111);
+    emit('accountsChanged', []);
+    expect(client.state.wallet.isConnected).toBe(false);
+
+    client.destroy();
+    expect(handlers.size).toBe(0);
+  });
+
+  it('logs a throwing listener and keeps notifying the others', async () => {
+    const warn = vi.spyOn(sdkLogger, 'warn');
+    const client = new FhevmClient(wallet());
+    const statuses: string[] = [];
+    client.on('status', () => {
+      throw new Error('listener bug');
+    });
+    const unsubscribe = client.on('status', status => statuses.push(status));
+
+    await client.initialize({ mode: 'mock' });
+    expect(statuses).toEqual(['loading', 'ready']);
+    expect(warn).toHaveBeenCalledWith('FhevmClient status listener threw', expect.any(Error));
+
+    unsubscribe();
+    await client.initialize({ mode: 'mock' });
+    expect(statuses).toHaveLength(2);
+  });
+});
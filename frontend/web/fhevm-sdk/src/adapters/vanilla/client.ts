@@ -0,0 +1,288 @@
+/**
+ * Framework-free FHEVM client
+ * Wallet, instance status and in-flight operations as one state object with change events
+ */
+
+import { ethers } from 'ethers';
+import {
+  classifyError,
+  createEncryptedInput,
+  decryptValue,
+  FhevmAbortedError,
+  initializeFheInstance,
+  linkAbortSignal,
+  publicDecryptV09,
+  sdkLogger,
+} from '../../core/index.js';
+import type {
+  DecryptedValue,
+  EncryptedValue,
+  FhevmCallOptions,
+  FhevmInitEvent,
+  FhevmInitOptions,
+  FhevmInitStage,
+  FhevmInstance,
+  PublicDecryptResults,
+} from '../../core/index.js';
+
+type Eip1193Provider = NonNullable<Window['ethereum']>;
+
+export interface FhevmWalletState {
+  address: string;
+  chainId: number;
+  isConnected: boolean;
+  isConnecting: boolean;
+}
+
+export interface FhevmClientOperation {
+  id: number;
+  kind: 'encrypt' | 'decrypt' | 'public-decrypt';
+  startedAt: number;
+}
+
+export interface FhevmClientState {
+  wallet: FhevmWalletState;
+  status: 'idle' | 'loading' | 'ready' | 'error';
+  stage: FhevmInitStage | null;
+  instance: FhevmInstance | null;
+  /** Encryptions and decryptions in flight */
+  operations: FhevmClientOperation[];
+  /** Last failure message; cleared when the next call starts */
+  error: string;
+}
+
+/**
+ * Events and their payloads. `change` fires after every update with the whole state;
+ * the others fire only when their part changed.
+ */
+export interface FhevmClientEvents {
+  change: FhevmClientState;
+  wallet: FhevmWalletState;
+  status: FhevmClientState['status'];
+  stage: FhevmInitEvent;
+  operations: FhevmClientOperation[];
+  error: string;
+}
+
+export type FhevmClientListener<K extends keyof FhevmClientEvents> = (payload: FhevmClientEvents[K]) => void;
+
+export interface FhevmClientOptions {
+  /** EIP-1193 provider; defaults to `window.ethereum` */
+  ethereum?: Eip1193Provider;
+}
+
+const DISCONNECTED: FhevmWalletState = { address: '', chainId: 0, isConnected: false, isConnecting: false };
+
+export class FhevmClient {
+  private current: FhevmClientState = {
+    wallet: DISCONNECTED,
+    status: 'idle',
+    stage: null,
+    instance: null,
+    operations: [],
+    error: '',
+  };
+  private readonly listeners = new Map<keyof FhevmClientEvents, Set<(payload: any) => void>>();
+  private readonly controllers = new Map<number, AbortController>();
+  private readonly ethereum?: Eip1193Provider;
+  private nextOperationId = 1;
+
+  constructor(options: FhevmClientOptions = {}) {
+    this.ethereum = options.ethereum ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+    this.ethereum?.on('chainChanged', this.handleChainChanged);
+    this.ethereum?.on('accountsChanged', this.handleAccountsChanged);
+  }
+
+  get state(): FhevmClientState {
+    return this.current;
+  }
+
+  get isReady(): boolean {
+    return this.current.status === 'ready';
+  }
+
+  /**
+   * Subscribe to an event; returns an unsubscribe function
+   */
+  on<K extends keyof FhevmClientEvents>(event: K, listener: FhevmClientListener<K>): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  async connect(): Promise<FhevmWalletState> {
+    if (!this.ethereum) {
+      this.setState({ error: 'MetaMask not found. Please install MetaMask.' });
+      return this.current.wallet;
+    }
+
+    this.setState({ wallet: { ...this.current.wallet, isConnecting: true }, error: '' });
+    try {
+      const accounts = await this.ethereum.request({ method: 'eth_requestAccounts' });
+      const chainId = await this.ethereum.request({ method: 'eth_chainId' });
+      this.setState({ wallet: { address: accounts[0], chainId: parseInt(chainId, 16), isConnected: true, isConnecting: false } });
+      sdkLogger.info('Wallet connected', accounts[0]);
+    } catch (cause) {
+      const err = classifyError(cause);
+      this.setState({
+        wallet: { ...this.current.wallet, isConnecting: false },
+        error: err instanceof Error ? err.message : 'Connection failed',
+      });
+      sdkLogger.error('Wallet connection failed', err);
+    }
+    return this.current.wallet;
+  }
+
+  disconnect(): void {
+    this.setState({ wallet: DISCONNECTED, error: '' });
+    sdkLogger.info('Wallet disconnected');
+  }
+
+  async initialize(options?: FhevmInitOptions): Promise<FhevmInstance | null> {
+    this.setState({ status: 'loading', stage: null, error: '' });
+
+    const onStage = (event: FhevmInitEvent) => {
+      this.setState({ stage: event.stage });
+      this.emit('stage', event);
+      options?.onStage?.(event);
+    };
+
+    try {
+      const instance = await initializeFheInstance({ ...options, onStage });
+      this.setState({ instance, status: 'ready' });
+      sdkLogger.info('FHEVM initialized');
+      return instance;
+    } catch (cause) {
+      const err = classifyError(cause);
+      this.setState({ status: 'error', error: err instanceof Error ? err.message : 'Unknown error' });
+      sdkLogger.error('FHEVM initialization failed', err);
+      return null;
+    }
+  }
+
+  /**
+   * Signer for the connected account
+   */
+  async signer(): Promise<ethers.Signer> {
+    if (!this.ethereum) {
+      throw new Error('No wallet available');
+    }
+    return new ethers.BrowserProvider(this.ethereum).getSigner(this.current.wallet.address || undefined);
+  }
+
+  /**
+   * Encrypt a uint32 for `contractAddress`, bound to the connected account
+   */
+  async encrypt(contractAddress: string, value: number, options?: FhevmCallOptions): Promise<EncryptedValue> {
+    const address = await this.requireAddress();
+    return this.run('encrypt', options, control => createEncryptedInput(contractAddress, address, value, { ...options, ...control }));
+  }
+
+  /**
+   * User-decrypt a handle the connected account may read (EIP-712 signature, or a stored permit)
+   */
+  async decrypt(handle: string, contractAddress: string, options?: FhevmCallOptions): Promise<DecryptedValue> {
+    await this.requireAddress();
+    const signer = await this.signer();
+    return this.run('decrypt', options, control => decryptValue(handle, contractAddress, signer, { ...options, ...control }));
+  }
+
+  /**
+   * Decrypt publicly decryptable handles; no wallet needed
+   */
+  async publicDecrypt(handles: string[], options?: FhevmCallOptions): Promise<PublicDecryptResults> {
+    return this.run('public-decrypt', options, control => publicDecryptV09(handles, { ...options, ...control }));
+  }
+
+  /**
+   * Abort every operation in flight
+   */
+  cancel(): void {
+    this.controllers.forEach(controller => controller.abort());
+    this.controllers.clear();
+  }
+
+  /**
+   * Cancel operations and drop wallet and event listeners
+   */
+  destroy(): void {
+    this.cancel();
+    this.ethereum?.removeListener('chainChanged', this.handleChainChanged);
+    this.ethereum?.removeListener('accountsChanged', this.handleAccountsChanged);
+    this.listeners.clear();
+  }
+
+  private readonly handleChainChanged = (chainIdHex: string) => {
+    const chainId = parseInt(chainIdHex, 16);
+    this.setState({ wallet: { ...this.current.wallet, chainId } });
+    sdkLogger.info('Chain changed to', chainId);
+  };
+
+  private readonly handleAccountsChanged = (accounts: string[]) => {
+    // No accounts: the user disconnected in the wallet
+    this.setState({ wallet: accounts.length === 0 ? DISCONNECTED : { ...this.current.wallet, address: accounts[0] } });
+  };
+
+  private async requireAddress(): Promise<string> {
+    const wallet = this.current.wallet.isConnected ? this.current.wallet : await this.connect();
+    if (!wallet.isConnected) {
+      throw new Error(this.current.error || 'Wallet not connected');
+    }
+    return wallet.address;
+  }
+
+  /**
+   * Run an operation as pending, abortable through cancel() or the caller's signal
+   */
+  private async run<T>(
+    kind: FhevmClientOperation['kind'],
+    options: FhevmCallOptions | undefined,
+    operation: (control: { signal: AbortSignal }) => Promise<T>
+  ): Promise<T> {
+    const id = this.nextOperationId++;
+    const controller = new AbortController();
+    linkAbortSignal(controller, options?.signal);
+    this.controllers.set(id, controller);
+    this.setState({ operations: [...this.current.operations, { id, kind, startedAt: Date.now() }], error: '' });
+
+    try {
+      return await operation({ signal: controller.signal });
+    } catch (cause) {
+      const err = classifyError(cause);
+      if (!(err instanceof FhevmAbortedError)) {
+        this.setState({ error: err instanceof Error ? err.message : `${kind} failed` });
+      }
+      throw err;
+    } finally {
+      this.controllers.delete(id);
+      this.setState({ operations: this.current.operations.filter(op => op.id !== id) });
+    }
+  }
+
+  private setState(patch: Partial<FhevmClientState>): void {
+    const previous = this.current;
+    this.current = { ...previous, ...patch };
+
+    if (patch.wallet && patch.wallet !== previous.wallet) this.emit('wallet', this.current.wallet);
+    if (patch.status && patch.status !== previous.status) this.emit('status', this.current.status);
+    if (patch.operations) this.emit('operations', this.current.operations);
+    if (patch.error && patch.error !== previous.error) this.emit('error', this.current.error);
+    this.emit('change', this.current);
+  }
+
+  /**
+   * A throwing listener is logged and never breaks the client
+   */
+  private emit<K extends keyof FhevmClientEvents>(event: K, payload: FhevmClientEvents[K]): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        listener(payload);
+      } catch (error) {
+        sdkLogger.warn(`FhevmClient ${event} listener threw`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { defineFhevmElements } from './elements.js';
+import type { FheDecryptedDetail, FheEncryptedDetail } from './elements.js';
+import { FhevmClient } from './client.js';
+import { disposeAllFheInstances, encryptInputs, MockFheInstance } from '../../core/index.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+
+const ethereum = {
+  request: async ({ method }: { method: string }) => (method === 'eth_chainId' ? '0x7a69' : [USER]),
+  on: () => {},
+  removeListener: () => {},
+} as unknown as Window['ethereum'];
+
+const client = new FhevmClient({ ethereum });
+
+function mount<T extends HTMLElement>(html: string): T {
+  document.body.innerHTML = html;
+  return document.body.firstElementChild as T;
+}
+
+function part<T extends HTMLElement>(host: HTMLElement, name: string): T {
+  return host.shadowRoot!.querySelector(`[part="${name}"]`) as T;
+}
+
+describe('FHEVM custom elements', () => {
+  beforeAll(() => defineFhevmElements(client));
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    disposeAllFheInstances();
+  });
+
+  it('registers both elements once and leaves registered names alone', () => {
+    const FheEncryptInput = customElements.get('fhe-encrypt-input');
+    expect(FheEncryptInput).toBeDefined();
+    expect(customElements.get('fhe-decrypt-value')).toBeDefined();
+
+    defineFhevmElements(client);
+    expect(customElements.get('fhe-encrypt-input')).toBe(FheEncryptInput);
+
+    defineFhevmElements(client, { encryptInput: 'my-encrypt-input', decryptValue: 'my-decrypt-value' });
+    expect(customElements.get('my-encrypt-input')).not.toBe(FheEncryptInput);
+  });
+
+  it('renders its attributes and stays disabled until the client is ready', async () => {
+    // Own names, so the shared client's readiness from other tests does not leak in
+    const idle = new FhevmClient({ ethereum });
+    defineFhevmElements(idle, { encryptInput: 'idle-encrypt-input', decryptValue: 'idle-decrypt-value' });
+    const host = mount(`<idle-encrypt-input contract="${CONTRACT}" placeholder="Score"></idle-encrypt-input>`);
+    const input = part<HTMLInputElement>(host, 'input');
+    const button = part<HTMLButtonElement>(host, 'button');
+
+    expect(input.placeholder).toBe('Score');
+    expect(button.textContent).toBe('Encrypt');
+    expect(button.disabled).toBe(true);
+
+    host.setAttribute('button-label', 'Seal');
+    expect(button.textContent).toBe('Seal');
+
+    await idle.initialize({ mode: 'mock' });
+    expect(button.disabled).toBe(false);
+  });
+
+  it('encrypts the entered value and reports it as fhe-encrypted', async () => {
+    await client.initialize({ mode: 'mock' });
+    const host = mount(`<fhe-encrypt-input contract="${CONTRACT}"></fhe-encrypt-input>`);
+    const encrypted = new Promise<FheEncryptedDetail>(resolve =>
+      host.addEventListener('fhe-encrypted', event => resolve((event as CustomEvent<FheEncryptedDetail>).detail))
+    );
+
+    part<HTMLInputElement>(host, 'input').value = '42';
+    part<HTMLButtonElement>(host, 'button').click();
+
+    const { handle, inputProof } = await encrypted;
+    expect(ethers.isHexString(handle, 32)).toBe(true);
+    expect(inputProof).toMatch(/^0x/);
+  });
+
+  it('rejects a value that is not a whole number without encrypting', async () => {
+    await client.initialize({ mode: 'mock' });
+    const encrypt = vi.spyOn(client, 'encrypt');
+    const host = mount(`<fhe-encrypt-input contract="${CONTRACT}"></fhe-encrypt-input>`);
+
+    part<HTMLInputElement>(host, 'input').value = '1.5';
+    part<HTMLButtonElement>(host, 'button').click();
+
+    expect(part(host, 'error').textContent).toBe('Enter a whole number');
+    expect(encrypt).not.toHaveBeenCalled();
+    encrypt.mockRestore();
+  });
+
+  it('decrypts a public handle once the client is ready and hides it again when the handle changes', async () => {
+    const instance = await client.initialize({ mode: 'mock' }) as MockFheInstance;
+    const { handles } = await encryptInputs(CONTRACT, USER, { instance }).u32(7).u32(8).encrypt();
+    const [first, second] = handles.map(({ handle }) => handle);
+
+    const host = mount(`<fhe-decrypt-value public></fhe-decrypt-value>`);
+    const value = part(host, 'value');
+    const decrypted = new Promise<FheDecryptedDetail>(resolve =>
+      host.addEventListener('fhe-decrypted', event => resolve((event as CustomEvent<FheDecryptedDetail>).detail))
+    );
+    expect(part(host, 'error').textContent).toBe('Missing handle attribute');
+
+    host.setAttribute('handle', first);
+    expect(await decrypted).toEqual({ handle: first, value: 7n });
+    expect(value.textContent).toBe('7');
+    expect(part<HTMLButtonElement>(host, 'button').hidden).toBe(true);
+
+    host.setAttribute('handle', second);
+    expect(value.textContent).toBe('••••');
+    await vi.waitFor(() => expect(value.textContent).toBe('8'));
+  });
+});
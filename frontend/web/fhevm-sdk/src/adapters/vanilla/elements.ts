@@ -0,0 +1,209 @@
+/**
+ * FHEVM custom elements
+ * `<fhe-encrypt-input>` and `<fhe-decrypt-value>` widgets for static pages, bound to a FhevmClient
+ *
+ * Both render in a shadow root and expose `part`s (input, button, value, error) for styling.
+ * Results are reported as DOM events: `fhe-encrypted`, `fhe-decrypted` and `fhe-error`.
+ */
+
+import { ethers } from 'ethers';
+import { fheTypeOfHandle, toDecryptedValue } from '../../core/index.js';
+import type { DecryptedValue } from '../../core/index.js';
+import type { FhevmClient } from './client.js';
+
+export interface FheEncryptedDetail {
+  /** Handle and input proof, ready for an `externalEuint32` parameter and its `bytes inputProof` */
+  handle: string;
+  inputProof: string;
+}
+
+export interface FheDecryptedDetail {
+  handle: string;
+  value: DecryptedValue;
+}
+
+export interface FhevmElementNames {
+  encryptInput?: string;
+  decryptValue?: string;
+}
+
+const DEFAULT_NAMES: Required<FhevmElementNames> = {
+  encryptInput: 'fhe-encrypt-input',
+  decryptValue: 'fhe-decrypt-value',
+};
+
+const HIDDEN_VALUE = '••••';
+
+function element<K extends keyof HTMLElementTagNameMap>(tag: K, part: string, text = ''): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  node.setAttribute('part', part);
+  node.textContent = text;
+  return node;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Register the custom elements, bound to `client`. Call once per page; names already
+ * registered are left alone.
+ *
+ * ```html
+ * <fhe-encrypt-input contract="0x..." placeholder="Score" button-label="Encrypt"></fhe-encrypt-input>
+ * <fhe-decrypt-value contract="0x..." handle="0x..."></fhe-decrypt-value>
+ * <fhe-decrypt-value handle="0x..." public></fhe-decrypt-value>
+ * ```
+ */
+export function defineFhevmElements(client: FhevmClient, names: FhevmElementNames = {}): void {
+  const { encryptInput, decryptValue } = { ...DEFAULT_NAMES, ...names };
+
+  /**
+   * Number input that encrypts its value for `contract` and the connected account
+   */
+  class FheEncryptInput extends HTMLElement {
+    static observedAttributes = ['placeholder', 'button-label'];
+    private readonly input = element('input', 'input');
+    private readonly button = element('button', 'button');
+    private readonly error = element('span', 'error');
+    private unsubscribe: (() => void) | null = null;
+    private busy = false;
+
+    constructor() {
+      super();
+      this.input.type = 'number';
+      this.input.min = '0';
+      this.button.addEventListener('click', () => void this.encrypt());
+      this.attachShadow({ mode: 'open' }).append(this.input, this.button, this.error);
+    }
+
+    connectedCallback() {
+      this.render();
+      this.unsubscribe = client.on('change', () => this.render());
+    }
+
+    disconnectedCallback() {
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+    }
+
+    attributeChangedCallback() {
+      this.render();
+    }
+
+    private render() {
+      this.input.placeholder = this.getAttribute('placeholder') ?? 'Value';
+      this.button.textContent = this.getAttribute('button-label') ?? 'Encrypt';
+      this.button.disabled = !client.isReady || this.busy;
+    }
+
+    private async encrypt() {
+      const contract = this.getAttribute('contract');
+      const value = Number(this.input.value);
+      this.error.textContent = '';
+      if (!contract || this.input.value === '' || !Number.isInteger(value) || value < 0) {
+        this.error.textContent = contract ? 'Enter a whole number' : 'Missing contract attribute';
+        return;
+      }
+
+      this.busy = true;
+      this.render();
+      try {
+        const { encryptedData, proof } = await client.encrypt(contract, value);
+        const detail: FheEncryptedDetail = { handle: ethers.hexlify(encryptedData), inputProof: ethers.hexlify(proof) };
+        this.dispatchEvent(new CustomEvent('fhe-encrypted', { detail, bubbles: true, composed: true }));
+      } catch (error) {
+        this.error.textContent = errorMessage(error);
+        this.dispatchEvent(new CustomEvent('fhe-error', { detail: error, bubbles: true, composed: true }));
+      } finally {
+        this.busy = false;
+        this.render();
+      }
+    }
+  }
+
+  /**
+   * Shows a handle's cleartext. User decryption waits for a click, since it asks for a
+   * signature; with the `public` attribute the value is decrypted as soon as the client is ready.
+   */
+  class FheDecryptValue extends HTMLElement {
+    static observedAttributes = ['handle', 'contract', 'public'];
+    private readonly value = element('span', 'value', HIDDEN_VALUE);
+    private readonly button = element('button', 'button', 'Reveal');
+    private readonly error = element('span', 'error');
+    private unsubscribe: (() => void) | null = null;
+    // Handle whose cleartext is shown
+    private revealed: string | null = null;
+    private busy = false;
+
+    constructor() {
+      super();
+      this.button.addEventListener('click', () => void this.decrypt());
+      this.attachShadow({ mode: 'open' }).append(this.value, this.button, this.error);
+    }
+
+    connectedCallback() {
+      this.render();
+      this.unsubscribe = client.on('status', () => this.render());
+    }
+
+    disconnectedCallback() {
+      this.unsubscribe?.();
+      this.unsubscribe = null;
+    }
+
+    attributeChangedCallback(name: string, previous: string | null, next: string | null) {
+      if (name === 'handle' && previous !== next) {
+        this.revealed = null;
+        this.value.textContent = HIDDEN_VALUE;
+        this.error.textContent = '';
+      }
+      this.render();
+    }
+
+    private get isPublic(): boolean {
+      return this.hasAttribute('public');
+    }
+
+    private render() {
+      this.button.hidden = this.isPublic || this.revealed !== null;
+      this.button.disabled = !client.isReady || this.busy;
+      if (this.isPublic && this.isConnected && client.isReady && this.revealed === null && !this.busy && !this.error.textContent) {
+        void this.decrypt();
+      }
+    }
+
+    private async decrypt() {
+      const handle = this.getAttribute('handle');
+      const contract = this.getAttribute('contract');
+      this.error.textContent = '';
+      if (!handle || (!this.isPublic && !contract)) {
+        this.error.textContent = handle ? 'Missing contract attribute' : 'Missing handle attribute';
+        return;
+      }
+
+      this.busy = true;
+      this.render();
+      try {
+        const value = this.isPublic
+          ? toDecryptedValue(fheTypeOfHandle(handle), (await client.publicDecrypt([handle])).clearValues[handle as `0x${string}`])
+          : await client.decrypt(handle, contract!);
+        if (this.getAttribute('handle') !== handle) return;
+
+        this.revealed = handle;
+        this.value.textContent = String(value);
+        const detail: FheDecryptedDetail = { handle, value };
+        this.dispatchEvent(new CustomEvent('fhe-decrypted', { detail, bubbles: true, composed: true }));
+      } catch (error) {
+        this.error.textContent = errorMessage(error);
+        this.dispatchEvent(new CustomEvent('fhe-error', { detail: error, bubbles: true, composed: true }));
+      } finally {
+        this.busy = false;
+        this.render();
+      }
+    }
+  }
+
+  if (!customElements.get(encryptInput)) customElements.define(encryptInput, FheEncryptInput);
+  if (!customElements.get(decryptValue)) customElements.define(decryptValue, FheDecryptValue);
+}
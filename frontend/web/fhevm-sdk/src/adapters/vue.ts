@@ -0,0 +1,17 @@
+/**
+ * Vue Adapter - Universal FHEVM SDK
+ * Vue 3 composables with the same API as the React hooks, built on the same core
+ *
+ * Returned state is reactive refs; wallet listeners, timers and in-flight calls
+ * are cleaned up when the component unmounts. Call the composables inside setup()
+ * (or an effectScope). Import from `@fhevm-sdk/vue`: the main entry also loads the React hooks.
+ */
+
+// Core FHEVM functionality, so Vue apps need a single import
+export * from '../core/index.js';
+
+export { useWallet } from './vue/useWallet.js';
+export { useFhevm } from './vue/useFhevm.js';
+export { useContract } from './vue/useContract.js';
+export { useDecrypt } from './vue/useDecrypt.js';
+export { useEncrypt } from './vue/useEncrypt.js';
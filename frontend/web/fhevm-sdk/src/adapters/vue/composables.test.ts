@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { effectScope } from 'vue';
+import { encryptInputs, FhevmAbortedError, MockFheInstance, sdkLogger } from '../../core/index.js';
+import { useDecrypt } from './useDecrypt.js';
+import { useEncrypt } from './useEncrypt.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+
+/**
+ * Mock whose encryptions never settle, so a call stays pending until aborted
+ */
+function stalledEncryption(): MockFheInstance {
+  const mock = new MockFheInstance();
+  const createEncryptedInput = mock.createEncryptedInput.bind(mock);
+  vi.spyOn(mock, 'createEncryptedInput').mockImplementation((contractAddress, userAddress) =>
+    Object.assign(createEncryptedInput(contractAddress, userAddress), { encrypt: () => new Promise<never>(() => {}) })
+  );
+  return mock;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('Vue composables in an effectScope', () => {
+  it('useEncrypt aborts a pending encryption when the scope stops', async () => {
+    const scope = effectScope();
+    const { encrypt, isEncrypting, error } = scope.run(() => useEncrypt())!;
+
+    const pending = encrypt(CONTRACT, USER, 42, { instance: stalledEncryption() });
+    expect(isEncrypting.value).toBe(true);
+
+    scope.stop();
+    await expect(pending).rejects.toBeInstanceOf(FhevmAbortedError);
+    expect(isEncrypting.value).toBe(false);
+    // An abort is not reported as an error
+    expect(error.value).toBe('');
+  });
+
+  it('useDecrypt aborts a pending decryption when the scope stops', async () => {
+    const mock = new MockFheInstance();
+    const { handles } = await encryptInputs(CONTRACT, USER, { instance: mock }).u32(42).encrypt();
+    vi.spyOn(mock, 'publicDecrypt').mockImplementation(() => new Promise<never>(() => {}));
+    const submit = vi.fn();
+
+    const scope = effectScope();
+    const { decryptAndVerify, isDecrypting } = scope.run(() => useDecrypt())!;
+
+    const pending = decryptAndVerify(handles.map(({ handle }) => handle), { instance: mock, submit });
+    expect(isDecrypting.value).toBe(true);
+
+    scope.stop();
+    await expect(pending).rejects.toBeInstanceOf(FhevmAbortedError);
+    expect(isDecrypting.value).toBe(false);
+    expect(submit).not.toHaveBeenCalled();
+  });
+
+  it('leaves other calls alone until the scope stops', async () => {
+    const scope = effectScope();
+    const { encrypt } = scope.run(() => useEncrypt())!;
+
+    await expect(encrypt(CONTRACT, USER, 42, { instance: new MockFheInstance() })).resolves.toMatchObject({
+      encryptedData: expect.any(Uint8Array),
+    });
+    scope.stop();
+  });
+
+  it('warns when called outside setup() or an effectScope', () => {
+    const warn = vi.spyOn(sdkLogger, 'warn');
+
+    useEncrypt();
+    expect(warn).toHaveBeenCalledWith('useEncrypt() called outside setup() or an effectScope; it will not clean up after itself');
+
+    warn.mockClear();
+    effectScope().run(() => useEncrypt());
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Internal: cleanup tied to the caller's lifetime
+ */
+
+import { getCurrentScope, onScopeDispose } from 'vue';
+import { sdkLogger } from '../../core/index.js';
+
+/**
+ * Run `cleanup` when the calling component unmounts or its effectScope stops.
+ * Called outside setup() there is nothing to tie it to: a warning is logged and
+ * listeners and timers stay until the page goes away.
+ */
+export function onCleanup(composable: string, cleanup: () => void): void {
+  if (getCurrentScope()) {
+    onScopeDispose(cleanup);
+  } else {
+    sdkLogger.warn(`${composable}() called outside setup() or an effectScope; it will not clean up after itself`);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Internal composable: one AbortController per in-flight call,
+ * all aborted by cancel() or when the component unmounts
+ */
+
+import { linkAbortSignal } from '../../core/index.js';
+import { onCleanup } from './onCleanup.js';
+
+export function useCancellation(composable: string) {
+  const controllers = new Set<AbortController>();
+
+  const cancel = () => {
+    controllers.forEach(controller => controller.abort());
+    controllers.clear();
+  };
+
+  onCleanup(composable, cancel);
+
+  /**
+   * Start tracking a call; the controller also follows the caller's own signal
+   */
+  const begin = (signal?: AbortSignal) => {
+    const controller = new AbortController();
+    linkAbortSignal(controller, signal);
+    controllers.add(controller);
+    return controller;
+  };
+
+  const end = (controller: AbortController) => {
+    controllers.delete(controller);
+  };
+
+  return { begin, end, cancel };
+}
@@ -0,0 +1,38 @@
+/**
+ * Vue composable for contract interactions
+ */
+
+import { ref, shallowRef, watch } from 'vue';
+import { ethers } from 'ethers';
+
+/**
+ * `address` may be a getter (e.g. `() => props.address`); the contract is rebuilt when it changes
+ */
+export function useContract(address: string | (() => string), abi: any[]) {
+  // Not deeply reactive: ethers contracts use private fields that Vue proxies would break
+  const contract = shallowRef<ethers.Contract | null>(null);
+  const isReady = ref(false);
+  const error = ref('');
+
+  const setup = (contractAddress: string) => {
+    if (!window.ethereum || !contractAddress || !abi) return;
+
+    try {
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      contract.value = new ethers.Contract(contractAddress, abi, provider);
+      isReady.value = true;
+      error.value = '';
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Contract setup failed';
+      isReady.value = false;
+    }
+  };
+
+  watch(() => (typeof address === 'function' ? address() : address), setup, { immediate: true });
+
+  return {
+    contract,
+    isReady,
+    error,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Vue composable for decryption operations - FHE v0.9
+ */
+
+import { ref } from 'vue';
+import { ethers } from 'ethers';
+import { classifyError, FhevmAbortedError, publicDecryptAndVerify } from '../../core/index.js';
+import type { FhevmCallOptions, PublicDecryptAndVerifyOptions, PublicDecryptAndVerifyResult } from '../../core/index.js';
+import { useCancellation } from './useCancellation.js';
+
+type VerifyFunction = (abiEncodedClearValues: string, decryptionProof: string) => Promise<ethers.ContractTransactionResponse>;
+
+type VerifyDecryptionResult = Pick<PublicDecryptAndVerifyResult, 'decryptionResult' | 'transactionReceipt'>;
+
+interface VerifyDecryption {
+  (handles: string[], verifyFunction: VerifyFunction, options?: FhevmCallOptions): Promise<VerifyDecryptionResult>;
+  /** @deprecated `contractAddress` was never used; call `verifyDecryption(handles, verifyFunction, options)` */
+  (handles: string[], contractAddress: string, verifyFunction: VerifyFunction, options?: FhevmCallOptions): Promise<VerifyDecryptionResult>;
+}
+
+export function useDecrypt() {
+  const isDecrypting = ref(false);
+  const error = ref('');
+  const { begin, end, cancel } = useCancellation('useDecrypt');
+
+  /**
+   * Public-decrypt `handles` and submit the proof, e.g. to `verifyScore` through a FhevmContract
+   */
+  const decryptAndVerify = async (handles: string[], options: PublicDecryptAndVerifyOptions) => {
+    isDecrypting.value = true;
+    error.value = '';
+    const controller = begin(options.signal);
+
+    try {
+      return await publicDecryptAndVerify(handles, { ...options, signal: controller.signal });
+    } catch (cause) {
+      const err = classifyError(cause);
+      if (!(err instanceof FhevmAbortedError)) {
+        error.value = err instanceof Error ? err.message : 'Decryption verification failed';
+      }
+      throw err;
+    } finally {
+      end(controller);
+      isDecrypting.value = false;
+    }
+  };
+
+  const verifyDecryption: VerifyDecryption = async (
+    handles: string[],
+    ...args: [VerifyFunction, FhevmCallOptions?] | [string, VerifyFunction, FhevmCallOptions?]
+  ) => {
+    // The deprecated form passes a contract address first
+    const [verifyFunction, options] = typeof args[0] === 'string'
+      ? args.slice(1) as [VerifyFunction, FhevmCallOptions?]
+      : args as [VerifyFunction, FhevmCallOptions?];
+    const { decryptionResult, transactionReceipt } = await decryptAndVerify(handles, { ...options, submit: verifyFunction });
+    return {
+      decryptionResult,
+      transactionReceipt,
+    };
+  };
+
+  return {
+    decryptAndVerify,
+    verifyDecryption,
+    cancel,
+    isDecrypting,
+    error,
+  };
+}
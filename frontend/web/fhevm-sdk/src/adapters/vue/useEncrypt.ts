@@ -0,0 +1,65 @@
+/**
+ * Vue composable for encryption operations
+ */
+
+import { ref } from 'vue';
+import { classifyError, createEncryptedInput, FhevmAbortedError } from '../../core/index.js';
+import type { EncryptedInputBuilder, EncryptedInputs, EncryptedValue, FhevmCallControl, FhevmCallOptions } from '../../core/index.js';
+import { useCancellation } from './useCancellation.js';
+
+export function useEncrypt() {
+  const isEncrypting = ref(false);
+  const error = ref('');
+  const { begin, end, cancel } = useCancellation('useEncrypt');
+
+  const fail = (cause: unknown) => {
+    const err = classifyError(cause);
+    if (!(err instanceof FhevmAbortedError)) {
+      error.value = err instanceof Error ? err.message : 'Encryption failed';
+    }
+    return err;
+  };
+
+  const encrypt = async (
+    contractAddress: string,
+    userAddress: string,
+    value: number,
+    options?: FhevmCallOptions
+  ): Promise<EncryptedValue> => {
+    isEncrypting.value = true;
+    error.value = '';
+    const controller = begin(options?.signal);
+
+    try {
+      return await createEncryptedInput(contractAddress, userAddress, value, { ...options, signal: controller.signal });
+    } catch (cause) {
+      throw fail(cause);
+    } finally {
+      end(controller);
+      isEncrypting.value = false;
+    }
+  };
+
+  const encryptBatch = async (builder: EncryptedInputBuilder, control?: FhevmCallControl): Promise<EncryptedInputs> => {
+    isEncrypting.value = true;
+    error.value = '';
+    const controller = begin(control?.signal);
+
+    try {
+      return await builder.encrypt({ ...control, signal: controller.signal });
+    } catch (cause) {
+      throw fail(cause);
+    } finally {
+      end(controller);
+      isEncrypting.value = false;
+    }
+  };
+
+  return {
+    encrypt,
+    encryptBatch,
+    cancel,
+    isEncrypting,
+    error,
+  };
+}
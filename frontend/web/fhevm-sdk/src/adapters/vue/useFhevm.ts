@@ -0,0 +1,83 @@
+/**
+ * Vue composable for the FHEVM instance
+ */
+
+import { ref, shallowRef, computed, watch } from 'vue';
+import { classifyError, initializeFheInstance, disposeFheInstance, sdkLogger } from '../../core/index.js';
+import type { FhevmInitEvent, FhevmInitOptions, FhevmInitStage, FhevmInstance } from '../../core/index.js';
+import { onCleanup } from './onCleanup.js';
+
+// How often elapsedMs refreshes while initializing
+const ELAPSED_TICK_MS = 250;
+
+export function useFhevm() {
+  // Not deeply reactive: the instance holds WASM objects Vue must not proxy
+  const instance = shallowRef<FhevmInstance | null>(null);
+  const status = ref<'idle' | 'loading' | 'ready' | 'error'>('idle');
+  const error = ref('');
+  const stage = ref<FhevmInitStage | null>(null);
+  const elapsedMs = ref(0);
+  let startedAt = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const stopTimer = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  // Keep elapsedMs moving between stage events, e.g. during the WASM download
+  watch(() => status.value, current => {
+    stopTimer();
+    if (current === 'loading') {
+      timer = setInterval(() => {
+        elapsedMs.value = Date.now() - startedAt;
+      }, ELAPSED_TICK_MS);
+    }
+  });
+
+  onCleanup('useFhevm', stopTimer);
+
+  const initialize = async (options?: FhevmInitOptions) => {
+    status.value = 'loading';
+    error.value = '';
+    stage.value = null;
+    elapsedMs.value = 0;
+    startedAt = Date.now();
+
+    const onStage = (event: FhevmInitEvent) => {
+      stage.value = event.stage;
+      elapsedMs.value = event.elapsedMs;
+      options?.onStage?.(event);
+    };
+
+    try {
+      instance.value = await initializeFheInstance({ ...options, onStage });
+      status.value = 'ready';
+      sdkLogger.info('FHEVM initialized');
+    } catch (cause) {
+      const err = classifyError(cause);
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      status.value = 'error';
+      sdkLogger.error('FHEVM initialization failed', err);
+    }
+  };
+
+  const dispose = (chainId: number) => {
+    disposeFheInstance(chainId);
+    instance.value = null;
+    status.value = 'idle';
+    stage.value = null;
+    elapsedMs.value = 0;
+  };
+
+  return {
+    instance,
+    status,
+    stage,
+    elapsedMs,
+    error,
+    initialize,
+    dispose,
+    isInitialized: computed(() => status.value === 'ready'),
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Vue composable for wallet connection
+ */
+
+import { ref } from 'vue';
+import { classifyError, sdkLogger } from '../../core/index.js';
+import { onCleanup } from './onCleanup.js';
+
+export function useWallet() {
+  const address = ref('');
+  const isConnected = ref(false);
+  const chainId = ref(0);
+  const isConnecting = ref(false);
+  const error = ref('');
+
+  const handleChainChanged = (chainIdHex: string) => {
+    const newChainId = parseInt(chainIdHex, 16);
+    chainId.value = newChainId;
+    sdkLogger.info('Chain changed to', newChainId);
+  };
+
+  const handleAccountsChanged = (accounts: string[]) => {
+    if (accounts.length === 0) {
+      // User disconnected
+      address.value = '';
+      isConnected.value = false;
+      chainId.value = 0;
+    } else {
+      address.value = accounts[0];
+    }
+  };
+
+  // Listen for chain and account changes while the component is mounted
+  if (typeof window !== 'undefined' && window.ethereum) {
+    window.ethereum.on('chainChanged', handleChainChanged);
+    window.ethereum.on('accountsChanged', handleAccountsChanged);
+
+    onCleanup('useWallet', () => {
+      window.ethereum?.removeListener('chainChanged', handleChainChanged);
+      window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
+    });
+  }
+
+  const connect = async () => {
+    if (!window.ethereum) {
+      error.value = 'MetaMask not found. Please install MetaMask.';
+      return;
+    }
+
+    isConnecting.value = true;
+    error.value = '';
+
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      const account = accounts[0];
+      address.value = account;
+      isConnected.value = true;
+
+      const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
+      chainId.value = parseInt(chainIdHex, 16);
+
+      sdkLogger.info('Wallet connected', account);
+    } catch (cause) {
+      const err = classifyError(cause);
+      error.value = err instanceof Error ? err.message : 'Connection failed';
+      sdkLogger.error('Wallet connection failed', err);
+    } finally {
+      isConnecting.value = false;
+    }
+  };
+
+  const disconnect = () => {
+    address.value = '';
+    isConnected.value = false;
+    chainId.value = 0;
+    error.value = '';
+    sdkLogger.info('Wallet disconnected');
+  };
+
+  return {
+    address,
+    isConnected,
+    chainId,
+    isConnecting,
+    error,
+    connect,
+    disconnect,
+  };
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ACL_ABI, AclClient, checkPublicDecryptAcl, checkUserDecryptAcl } from './acl.js';
+import { DecryptionNotAllowedError } from './errors.js';
+import { getRpcProvider, SEPOLIA_NETWORK } from './networks.js';
+import { disposeAllFheInstances, registerFheInstance } from './registry.js';
+import { sdkLogger } from './logger.js';
+import type { FhevmInstance } from './types.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const HANDLE = ethers.zeroPadValue('0x01', 32);
+const NETWORK = { ...SEPOLIA_NETWORK, rpcUrl: 'http://acl.test' };
+
+const acl = new ethers.Interface(ACL_ABI);
+
+type Answer = (method: string, args: ethers.Result) => boolean;
+
+/**
+ * Provider stub on `chainId` that answers ACL reads from `answer`
+ */
+function aclProvider(chainId: number, answer: Answer) {
+  const call = vi.fn(async (tx: ethers.TransactionRequest) => {
+    const parsed = acl.parseTransaction({ data: tx.data as string })!;
+    return acl.encodeFunctionResult(parsed.fragment, [answer(parsed.name, parsed.args)]);
+  });
+  const provider = { getNetwork: async () => new ethers.Network('stub', chainId), call } as unknown as ethers.Provider;
+  return { provider, call };
+}
+
+/**
+ * Stand-in instance registered for NETWORK, so the pre-checks read its ACL
+ */
+function sepoliaInstance(): FhevmInstance {
+  const instance = {} as FhevmInstance;
+  registerFheInstance(NETWORK.chainId, instance, NETWORK.relayerUrl, NETWORK);
+  return instance;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  disposeAllFheInstances();
+});
+
+describe('AclClient', () => {
+  it('allows user decryption only when both the user and the contract have access', async () => {
+    const user = ethers.Wallet.createRandom().address;
+    let contractAllowed = true;
+    const { provider } = aclProvider(NETWORK.chainId, (_, [, account]) => account === user || (account === CONTRACT && contractAllowed));
+    const client = new AclClient(NETWORK.aclContractAddress, provider);
+
+    expect(await client.canUserDecrypt(HANDLE, user, CONTRACT)).toBe(true);
+    contractAllowed = false;
+    expect(await client.canUserDecrypt(HANDLE, user, CONTRACT)).toBe(false);
+    await expect(client.assertUserDecryptAllowed([HANDLE], user, CONTRACT)).rejects.toMatchObject({
+      name: 'DecryptionNotAllowedError',
+      handle: HANDLE,
+    });
+  });
+});
+
+describe('checkUserDecryptAcl', () => {
+  it('reads through the signer when it is on the instance chain', async () => {
+    const { provider, call } = aclProvider(NETWORK.chainId, () => true);
+    const signer = ethers.Wallet.createRandom().connect(provider);
+
+    await checkUserDecryptAcl(sepoliaInstance(), [HANDLE], CONTRACT, signer);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('reads from the network RPC when the wallet is on another chain', async () => {
+    const wallet = aclProvider(1, () => true);
+    const rpc = vi.spyOn(getRpcProvider(NETWORK), 'call').mockImplementation(aclProvider(NETWORK.chainId, () => false).call);
+    const signer = ethers.Wallet.createRandom().connect(wallet.provider);
+
+    await expect(checkUserDecryptAcl(sepoliaInstance(), [HANDLE], CONTRACT, signer)).rejects.toBeInstanceOf(DecryptionNotAllowedError);
+    expect(wallet.call).not.toHaveBeenCalled();
+    expect(rpc).toHaveBeenCalled();
+  });
+
+  it('only logs when the ACL cannot be reached', async () => {
+    vi.spyOn(getRpcProvider(NETWORK), 'call').mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const warn = vi.spyOn(sdkLogger, 'warn');
+
+    await expect(checkUserDecryptAcl(sepoliaInstance(), [HANDLE], CONTRACT, ethers.Wallet.createRandom())).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalledWith('ACL pre-check failed, continuing without it', expect.any(Error));
+  });
+
+  it('is skipped with aclCheck: false', async () => {
+    const rpc = vi.spyOn(getRpcProvider(NETWORK), 'call');
+
+    await checkUserDecryptAcl(sepoliaInstance(), [HANDLE], CONTRACT, ethers.Wallet.createRandom(), { aclCheck: false });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkPublicDecryptAcl', () => {
+  it('rejects handles that are not publicly decryptable', async () => {
+    const other = ethers.zeroPadValue('0x02', 32);
+    vi.spyOn(getRpcProvider(NETWORK), 'call').mockImplementation(
+      aclProvider(NETWORK.chainId, (method, [handle]) => method === 'isAllowedForDecryption' && handle === HANDLE).call
+    );
+
+    await expect(checkPublicDecryptAcl(sepoliaInstance(), [HANDLE])).resolves.toBeUndefined();
+    await expect(checkPublicDecryptAcl(sepoliaInstance(), [HANDLE, other])).rejects.toThrow(`Handle ${other} is not allowed for public decryption`);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * FHEVM ACL Client - Universal SDK
+ * Reads decryption permissions from the host chain ACL contract, so a missing
+ * permission is reported before the user signs anything or the relayer is called
+ */
+
+import { ethers } from 'ethers';
+import { DecryptionNotAllowedError } from './errors.js';
+import { getRpcProvider, resolveNetworkConfig } from './networks.js';
+import type { FhevmNetworkConfig, FhevmNetworkInput } from './networks.js';
+import { chainIdOf, networkOf } from './registry.js';
+import { MockFheInstance } from './mock.js';
+import { sdkLogger } from './logger.js';
+import type { FhevmCallOptions, FhevmInstance } from './types.js';
+
+/**
+ * View methods of the IACL typechain interface (types/@fhevm/solidity/lib/impl.sol/IACL.ts)
+ */
+export const ACL_ABI = [
+  'function isAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+];
+
+interface AclContract {
+  isAllowed(handle: ethers.BytesLike, account: ethers.AddressLike): Promise<boolean>;
+  isAllowedForDecryption(handle: ethers.BytesLike): Promise<boolean>;
+}
+
+export class AclClient {
+  private readonly acl: AclContract;
+
+  constructor(readonly address: string, runner: ethers.ContractRunner) {
+    this.acl = new ethers.Contract(address, ACL_ABI, runner) as unknown as AclContract;
+  }
+
+  /**
+   * ACL of a network, read through `runner` or the network's RPC endpoint
+   */
+  static forNetwork(network: FhevmNetworkInput, runner?: ethers.ContractRunner): AclClient {
+    const config = resolveNetworkConfig(network);
+    return new AclClient(config.aclContractAddress, runner ?? getRpcProvider(config));
+  }
+
+  /**
+   * Whether `account` (a user or a contract) holds persistent access to `handle`
+   */
+  async isAllowed(handle: string, account: string): Promise<boolean> {
+    return this.acl.isAllowed(handle, account);
+  }
+
+  /**
+   * Whether `handle` was marked publicly decryptable
+   */
+  async isAllowedForDecryption(handle: string): Promise<boolean> {
+    return this.acl.isAllowedForDecryption(handle);
+  }
+
+  /**
+   * User decryption needs access for both the user and the contract named in the request
+   */
+  async canUserDecrypt(handle: string, userAddress: string, contractAddress: string): Promise<boolean> {
+    const [user, contract] = await Promise.all([
+      this.isAllowed(handle, userAddress),
+      this.isAllowed(handle, contractAddress),
+    ]);
+    return user && contract;
+  }
+
+  /**
+   * Throw DecryptionNotAllowedError for the first handle the user may not decrypt
+   */
+  async assertUserDecryptAllowed(handles: string[], userAddress: string, contractAddress: string): Promise<void> {
+    const allowed = await Promise.all(handles.map(handle => this.canUserDecrypt(handle, userAddress, contractAddress)));
+    const denied = handles.find((_, i) => !allowed[i]);
+    if (denied) {
+      throw new DecryptionNotAllowedError(denied, `${userAddress} is not allowed to decrypt handle ${denied} through ${contractAddress}`);
+    }
+  }
+
+  /**
+   * Throw DecryptionNotAllowedError for the first handle that is not publicly decryptable
+   */
+  async assertPublicDecryptAllowed(handles: string[]): Promise<void> {
+    const allowed = await Promise.all(handles.map(handle => this.isAllowedForDecryption(handle)));
+    const denied = handles.find((_, i) => !allowed[i]);
+    if (denied) {
+      throw new DecryptionNotAllowedError(denied, `Handle ${denied} is not allowed for public decryption`);
+    }
+  }
+}
+
+/**
+ * Network whose ACL is checked for an instance, or null when the check does not apply:
+ * turned off, a mock instance (no chain) or a chain with no registered network config
+ */
+function aclNetworkFor(fhe: FhevmInstance, options?: FhevmCallOptions): FhevmNetworkConfig | null {
+  if (options?.aclCheck === false || fhe instanceof MockFheInstance) return null;
+
+  const network = networkOf(fhe);
+  if (!network) {
+    sdkLogger.debug(`No network config for chain ${chainIdOf(fhe)}, skipping ACL pre-check`);
+  }
+  return network;
+}
+
+/**
+ * `provider` when it is connected to the network's chain, else the network's RPC endpoint.
+ * A wallet switched to another chain would otherwise answer from the wrong ACL.
+ */
+async function providerFor(network: FhevmNetworkConfig, provider: ethers.Provider | null): Promise<ethers.Provider> {
+  if (provider) {
+    const { chainId } = await provider.getNetwork();
+    if (chainId === BigInt(network.chainId)) return provider;
+    sdkLogger.debug(`Signer is on chain ${chainId}, reading the ACL of chain ${network.chainId} from its RPC endpoint`);
+  }
+  return getRpcProvider(network);
+}
+
+/**
+ * Run a pre-check; a denial is thrown, but an unreachable ACL only logs,
+ * since the relayer enforces the same rules anyway
+ */
+async function precheck(check: () => Promise<void>): Promise<void> {
+  try {
+    await check();
+  } catch (error) {
+    if (error instanceof DecryptionNotAllowedError) throw error;
+    sdkLogger.warn('ACL pre-check failed, continuing without it', error);
+  }
+}
+
+/**
+ * Check user-decryption access before the EIP-712 signature is requested
+ */
+export async function checkUserDecryptAcl(
+  fhe: FhevmInstance,
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer,
+  options?: FhevmCallOptions
+): Promise<void> {
+  const network = aclNetworkFor(fhe, options);
+  if (!network) return;
+  await precheck(async () => {
+    const client = new AclClient(network.aclContractAddress, await providerFor(network, signer.provider));
+    await client.assertUserDecryptAllowed(handles, await signer.getAddress(), contractAddress);
+  });
+}
+
+/**
+ * Check public-decryption access before the relayer is called
+ */
+export async function checkPublicDecryptAcl(fhe: FhevmInstance, handles: string[], options?: FhevmCallOptions): Promise<void> {
+  const network = aclNetworkFor(fhe, options);
+  if (!network) return;
+  await precheck(() => AclClient.forNetwork(network).assertPublicDecryptAllowed(handles));
+}
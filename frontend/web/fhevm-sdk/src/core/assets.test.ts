@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { initRelayerWasm, loadRelayerSDK, verifyIntegrity } from './assets.js';
+import { AssetIntegrityError } from './errors.js';
+
+vi.mock('@zama-fhe/relayer-sdk/web', () => ({ source: 'module' }));
+
+type RelayerSDK = Awaited<ReturnType<typeof loadRelayerSDK>>;
+
+const WASM = new TextEncoder().encode('\0asm fake module').buffer;
+
+async function sri(algorithm: 'sha256' | 'sha384', bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest(algorithm === 'sha256' ? 'SHA-256' : 'SHA-384', bytes);
+  return `${algorithm}-${Buffer.from(digest).toString('base64')}`;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('verifyIntegrity', () => {
+  it('accepts bytes matching the SRI digest', async () => {
+    await expect(verifyIntegrity('/tfhe_bg.wasm', WASM, await sri('sha256', WASM))).resolves.toBeUndefined();
+    await expect(verifyIntegrity('/tfhe_bg.wasm', WASM, await sri('sha384', WASM))).resolves.toBeUndefined();
+  });
+
+  it('rejects a mismatch with the expected and actual digests', async () => {
+    const expected = await sri('sha256', new ArrayBuffer(8));
+    const error = await verifyIntegrity('/kms_lib_bg.wasm', WASM, expected).catch(cause => cause);
+
+    expect(error).toBeInstanceOf(AssetIntegrityError);
+    expect(error).toMatchObject({ url: '/kms_lib_bg.wasm', expected, actual: await sri('sha256', WASM) });
+  });
+
+  it('rejects unsupported SRI values', async () => {
+    await expect(verifyIntegrity('/tfhe_bg.wasm', WASM, 'md5-abc')).rejects.toThrow('Unsupported integrity value');
+  });
+});
+
+describe('loadRelayerSDK', () => {
+  it('imports the ES module by default', async () => {
+    expect(await loadRelayerSDK()).toMatchObject({ source: 'module' });
+  });
+
+  it('uses the global installed by a script tag when asked to', async () => {
+    const sdk = { source: 'global' };
+    vi.stubGlobal('window', { relayerSDK: sdk });
+    expect(await loadRelayerSDK({ sdk: 'global' })).toBe(sdk);
+
+    vi.stubGlobal('window', {});
+    await expect(loadRelayerSDK({ sdk: 'global' })).rejects.toThrow('RelayerSDK not loaded');
+  });
+});
+
+describe('initRelayerWasm', () => {
+  it('hands verified local bytes to the SDK when integrity is set', async () => {
+    const fetch = vi.fn(async () => new Response(WASM));
+    vi.stubGlobal('fetch', fetch);
+    const initSDK = vi.fn(async () => true);
+
+    await initRelayerWasm({ initSDK } as unknown as RelayerSDK, {
+      tfheWasmUrl: '/assets/tfhe.wasm',
+      integrity: { tfhe: await sri('sha256', WASM) },
+    });
+
+    expect(fetch).toHaveBeenCalledWith('/assets/tfhe.wasm');
+    expect(initSDK).toHaveBeenCalledWith({ tfheParams: WASM, kmsParams: '/kms_lib_bg.wasm', thread: undefined });
+  });
+
+  it('falls back to the local URLs when the default location fails', async () => {
+    const initSDK = vi.fn()
+      .mockRejectedValueOnce(new Error('CORS'))
+      .mockResolvedValueOnce(true);
+
+    await initRelayerWasm({ initSDK } as unknown as RelayerSDK);
+    expect(initSDK).toHaveBeenLastCalledWith({ tfheParams: '/tfhe_bg.wasm', kmsParams: '/kms_lib_bg.wasm', thread: undefined });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * FHEVM Browser Assets - Universal SDK
+ * Loads the relayer SDK and its TFHE / KMS WASM files from configurable locations,
+ * optionally local-only and integrity-checked, for networks where the Zama CDN is blocked
+ */
+
+import { AssetIntegrityError } from './errors.js';
+import { sdkLogger } from './logger.js';
+
+type RelayerSDKModule = typeof import('@zama-fhe/relayer-sdk/web');
+
+export interface FhevmAssetOptions {
+  /**
+   * `module` (default) imports @zama-fhe/relayer-sdk/web through the bundler;
+   * `global` uses `window.RelayerSDK` from a <script> tag
+   */
+  sdk?: 'module' | 'global';
+  /**
+   * `auto` (default) lets the SDK load its WASM from its own location (bundle or CDN)
+   * and falls back to the local URLs; `local` only uses the local URLs
+   */
+  wasm?: 'auto' | 'local';
+  /**
+   * Local TFHE WASM location; defaults to /tfhe_bg.wasm. The app serves these files
+   * itself, copied from `@zama-fhe/relayer-sdk/lib` (the example app's vite.config.ts does so).
+   */
+  tfheWasmUrl?: string;
+  /** Local KMS WASM location; defaults to /kms_lib_bg.wasm */
+  kmsWasmUrl?: string;
+  /**
+   * Expected digests of the local WASM files, as SRI strings (`sha256-<base64>`,
+   * also sha384/sha512). Files are fetched, verified, then handed to the SDK.
+   */
+  integrity?: { tfhe?: string; kms?: string };
+  /** Worker threads for TFHE; defaults to the SDK's choice */
+  thread?: number;
+}
+
+const DEFAULT_TFHE_WASM_URL = '/tfhe_bg.wasm';
+const DEFAULT_KMS_WASM_URL = '/kms_lib_bg.wasm';
+
+const SRI_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+/**
+ * Load the relayer SDK as an ES module or from the global a CDN script tag installs
+ */
+export async function loadRelayerSDK(options?: FhevmAssetOptions): Promise<RelayerSDKModule> {
+  if (options?.sdk === 'global') {
+    // Check for both uppercase and lowercase versions of RelayerSDK
+    const sdk: RelayerSDKModule | undefined = (window as any).RelayerSDK || (window as any).relayerSDK;
+    if (!sdk) {
+      throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+    }
+    return sdk;
+  }
+  return import('@zama-fhe/relayer-sdk/web');
+}
+
+function toBase64(bytes: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(bytes).forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+}
+
+/**
+ * Check bytes against an SRI string such as `sha256-<base64>`
+ */
+export async function verifyIntegrity(url: string, bytes: ArrayBuffer, integrity: string): Promise<void> {
+  const [prefix, expected] = integrity.split(/-(.*)/s);
+  const algorithm = SRI_ALGORITHMS[prefix];
+  if (!algorithm || !expected) {
+    throw new Error(`Unsupported integrity value for ${url}: ${integrity}`);
+  }
+  const actual = toBase64(await crypto.subtle.digest(algorithm, bytes));
+  if (actual !== expected) {
+    throw new AssetIntegrityError(url, integrity, `${prefix}-${actual}`);
+  }
+}
+
+/**
+ * WASM input for initSDK: the URL itself, or the verified bytes when an integrity hash is set
+ */
+async function wasmSource(url: string, integrity?: string): Promise<string | ArrayBuffer> {
+  if (!integrity) return url;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: HTTP ${response.status}`);
+  }
+  const bytes = await response.arrayBuffer();
+  await verifyIntegrity(url, bytes, integrity);
+  return bytes;
+}
+
+async function initLocal(sdk: RelayerSDKModule, options?: FhevmAssetOptions): Promise<void> {
+  const tfheUrl = options?.tfheWasmUrl ?? DEFAULT_TFHE_WASM_URL;
+  const kmsUrl = options?.kmsWasmUrl ?? DEFAULT_KMS_WASM_URL;
+
+  await sdk.initSDK({
+    tfheParams: await wasmSource(tfheUrl, options?.integrity?.tfhe),
+    kmsParams: await wasmSource(kmsUrl, options?.integrity?.kms),
+    thread: options?.thread,
+  });
+  sdkLogger.info('FHEVM SDK initialized with local WASM files', { tfheUrl, kmsUrl });
+}
+
+/**
+ * Initialize the relayer SDK's WASM according to the asset options
+ */
+export async function initRelayerWasm(sdk: RelayerSDKModule, options?: FhevmAssetOptions): Promise<void> {
+  // Integrity can only be checked on files we fetch ourselves
+  if (options?.wasm === 'local' || options?.integrity) {
+    await initLocal(sdk, options);
+    return;
+  }
+
+  // Try the SDK's own location first (bundle or CDN);
+  // if it fails (e.g., CORS error), fall back to local WASM files
+  try {
+    await sdk.initSDK({ thread: options?.thread });
+    sdkLogger.info('FHEVM SDK initialized');
+  } catch (error) {
+    sdkLogger.warn('Default WASM location failed, falling back to local WASM files', error);
+    await initLocal(sdk, options);
+  }
+}
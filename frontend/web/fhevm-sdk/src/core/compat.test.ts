@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { assertPublicDecryptSupported, detectPublicDecryptFormat, normalizePublicDecryptResult } from './compat.js';
+import { DecryptionProofUnavailableError } from './errors.js';
+import { FHE_TYPE_IDS } from './fheTypes.js';
+import type { FhevmInstance } from './types.js';
+
+const PROOF = '0x0100';
+
+function handle(seed: number, type: 'euint32' | 'ebool'): string {
+  return ethers.hexlify(ethers.concat([
+    new Uint8Array(21).fill(seed),
+    '0xff',
+    ethers.toBeHex(31337, 8),
+    ethers.toBeHex(FHE_TYPE_IDS[type], 1),
+    '0x00',
+  ]));
+}
+
+const amount = handle(0xab, 'euint32');
+const flag = handle(0xcd, 'ebool');
+const encoded = ethers.AbiCoder.defaultAbiCoder().encode(['uint32', 'bool'], [7n, true]);
+
+describe('detectPublicDecryptFormat', () => {
+  it('tells the v0.9 result from the legacy map', () => {
+    expect(detectPublicDecryptFormat({ clearValues: {}, abiEncodedClearValues: '0x', decryptionProof: PROOF })).toBe('v0.9');
+    expect(detectPublicDecryptFormat({ [amount]: 7n })).toBe('legacy');
+  });
+
+  it('rejects anything else', () => {
+    expect(() => detectPublicDecryptFormat(null)).toThrow('expected an object');
+    expect(() => detectPublicDecryptFormat({ [amount]: 7 })).toThrow('Invalid publicDecrypt result structure');
+  });
+});
+
+describe('normalizePublicDecryptResult', () => {
+  it('keeps a v0.9 result and orders cleartexts by handle', () => {
+    const result = normalizePublicDecryptResult([amount, flag], {
+      clearValues: { [flag]: true, [amount]: 7n },
+      abiEncodedClearValues: encoded,
+      decryptionProof: PROOF,
+    });
+
+    expect(Object.keys(result.clearValues)).toEqual([amount, flag]);
+    expect(result).toMatchObject({ abiEncodedClearValues: encoded, decryptionProof: PROOF });
+  });
+
+  it('finds handles the relayer keyed in a different case', () => {
+    const upper = `0x${amount.slice(2).toUpperCase()}`;
+    const result = normalizePublicDecryptResult([upper], {
+      clearValues: { [amount]: 7n },
+      abiEncodedClearValues: ethers.AbiCoder.defaultAbiCoder().encode(['uint32'], [7n]),
+      decryptionProof: PROOF,
+    });
+    expect(result.clearValues[upper as `0x${string}`]).toBe(7n);
+  });
+
+  it('reports a legacy map as having no proof, with the cleartexts attached', () => {
+    let error: unknown;
+    try {
+      normalizePublicDecryptResult([amount, flag], { [amount]: 7n, [flag]: true });
+    } catch (cause) {
+      error = cause;
+    }
+
+    expect(error).toBeInstanceOf(DecryptionProofUnavailableError);
+    expect(error).toMatchObject({ format: 'legacy', clearValues: { [amount]: 7n, [flag]: true }, abiEncodedClearValues: encoded });
+  });
+
+  it('treats an empty v0.9 proof as missing', () => {
+    expect(() => normalizePublicDecryptResult([amount], {
+      clearValues: { [amount]: 7n },
+      abiEncodedClearValues: '0x',
+      decryptionProof: '0x',
+    })).toThrow(DecryptionProofUnavailableError);
+  });
+
+  it('fails on a handle the relayer did not return', () => {
+    expect(() => normalizePublicDecryptResult([amount, flag], { clearValues: { [amount]: 7n }, decryptionProof: PROOF }))
+      .toThrow(`Relayer returned no cleartext for handle ${flag}`);
+  });
+});
+
+describe('assertPublicDecryptSupported', () => {
+  it('rejects relayer SDKs without publicDecrypt', () => {
+    expect(() => assertPublicDecryptSupported({} as FhevmInstance)).toThrow('does not support public decryption');
+  });
+});
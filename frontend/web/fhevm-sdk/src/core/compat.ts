@@ -0,0 +1,80 @@
+/**
+ * Relayer SDK Compatibility - Universal SDK
+ * Normalizes public decryption results across relayer SDK generations:
+ * 0.3.x (FHEVM v0.9) returns { clearValues, abiEncodedClearValues, decryptionProof },
+ * 0.2.x returns a bare handle -> cleartext map with no KMS proof
+ */
+
+import { ethers } from 'ethers';
+import { DecryptionProofUnavailableError } from './errors.js';
+import { abiEncodeClearValues } from './handles.js';
+import type { ClearValues, ClearValueType, FhevmInstance, PublicDecryptResults } from './types.js';
+
+type Hex = `0x${string}`;
+
+export type PublicDecryptFormat = 'v0.9' | 'legacy';
+
+function isClearValue(value: unknown): value is ClearValueType {
+  return typeof value === 'bigint' || typeof value === 'boolean' || (typeof value === 'string' && ethers.isHexString(value));
+}
+
+/**
+ * Identify the shape of a raw `publicDecrypt` result
+ */
+export function detectPublicDecryptFormat(result: unknown): PublicDecryptFormat {
+  if (!result || typeof result !== 'object') {
+    throw new Error('Invalid publicDecrypt result: expected an object');
+  }
+  if ('clearValues' in result && typeof (result as PublicDecryptResults).clearValues === 'object') {
+    return 'v0.9';
+  }
+  if (Object.values(result).every(isClearValue)) {
+    return 'legacy';
+  }
+  throw new Error('Invalid publicDecrypt result structure');
+}
+
+/**
+ * Check the instance can public-decrypt at all (relayer SDK 0.1 had no publicDecrypt)
+ */
+export function assertPublicDecryptSupported(fhe: FhevmInstance): void {
+  if (typeof (fhe as Partial<FhevmInstance>).publicDecrypt !== 'function') {
+    throw new Error('This relayer SDK version does not support public decryption. Upgrade to @zama-fhe/relayer-sdk 0.3 or later.');
+  }
+}
+
+function lookupClearValue(values: Record<string, unknown>, handle: string): ClearValueType {
+  const value = values[handle] ?? values[handle.toLowerCase()];
+  if (!isClearValue(value)) {
+    throw new Error(`Relayer returned no cleartext for handle ${handle}`);
+  }
+  return value;
+}
+
+/**
+ * Convert a raw `publicDecrypt` result to v0.9 form, in the order of `handles`.
+ * Cleartexts are ABI-encoded with each handle's own type (bool, uint8-256, address).
+ * Throws DecryptionProofUnavailableError when no usable KMS proof is present.
+ */
+export function normalizePublicDecryptResult(handles: string[], raw: unknown): PublicDecryptResults {
+  const format = detectPublicDecryptFormat(raw);
+  const source = format === 'v0.9'
+    ? (raw as PublicDecryptResults).clearValues as Record<string, unknown>
+    : raw as Record<string, unknown>;
+
+  const clearValues: ClearValues = {};
+  for (const handle of handles) {
+    clearValues[handle as Hex] = lookupClearValue(source, handle);
+  }
+
+  const proof = format === 'v0.9' ? (raw as PublicDecryptResults).decryptionProof : undefined;
+  const abiEncodedClearValues = format === 'v0.9' && (raw as PublicDecryptResults).abiEncodedClearValues
+    ? (raw as PublicDecryptResults).abiEncodedClearValues
+    : abiEncodeClearValues(handles, clearValues);
+
+  if (!proof || ethers.dataLength(proof) === 0) {
+    throw new DecryptionProofUnavailableError(format, clearValues, abiEncodedClearValues);
+  }
+
+  return { clearValues, abiEncodedClearValues, decryptionProof: proof };
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { createFhevmContract } from './contracts.js';
+import { createMockFheInstance, MockFheInstance } from './mock.js';
+import { sdkLogger } from './logger.js';
+import { parseHandle } from './handles.js';
+import { parseInputProof } from './proofs.js';
+import { FHE_TYPE_IDS } from './fheTypes.js';
+import type { FheTypeName } from './fheTypes.js';
+import { HARDHAT_NETWORK } from './networks.js';
+
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+const ABI: ethers.JsonFragment[] = [
+  {
+    type: 'function',
+    name: 'addContribution',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'id', type: 'uint256', internalType: 'uint256' },
+      { name: 'amount', type: 'bytes32', internalType: 'externalEuint32' },
+      { name: 'anonymous', type: 'bytes32', internalType: 'externalEbool' },
+      { name: 'inputProof', type: 'bytes', internalType: 'bytes' },
+      { name: 'note', type: 'string', internalType: 'string' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'store',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'value', type: 'bytes32', internalType: 'externalEuint32' }],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'simulate',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256', internalType: 'uint256' }],
+  },
+];
+
+/**
+ * Signer stub that records the transaction it is asked to send
+ */
+function capturingSigner(sent: ethers.TransactionRequest[]): ethers.Signer {
+  const wallet = ethers.Wallet.createRandom();
+  return Object.assign(wallet, {
+    sendTransaction: async (tx: ethers.TransactionRequest) => {
+      sent.push(tx);
+      return { hash: ethers.ZeroHash, ...tx };
+    },
+  }) as unknown as ethers.Signer;
+}
+
+describe('createFhevmContract', () => {
+  it('encrypts plaintext arguments into one input and places the handles and proof by the ABI', async () => {
+    const sent: ethers.TransactionRequest[] = [];
+    const contract = createFhevmContract(ADDRESS, ABI, capturingSigner(sent), { instance: await createMockFheInstance() });
+
+    await contract.addContribution(7n, 42, true, 'hi');
+
+    expect(sent).toHaveLength(1);
+    const [id, amount, anonymous, inputProof, note] = new ethers.Interface(ABI).decodeFunctionData('addContribution', sent[0].data!);
+    expect(id).toBe(7n);
+    expect(parseHandle(amount)).toMatchObject({ type: 'euint32', index: 0 });
+    expect(parseHandle(anonymous)).toMatchObject({ type: 'ebool', index: 1 });
+    expect(parseInputProof(inputProof).handles).toEqual([amount, anonymous]);
+    expect(note).toBe('hi');
+  });
+
+  it('accepts an encrypted method without an input proof and fails only when it is called', async () => {
+    const contract = createFhevmContract(ADDRESS, ABI, ethers.Wallet.createRandom(), { instance: await createMockFheInstance() });
+
+    expect(contract.hasEncryptedInputs('store')).toBe(true);
+    await expect(contract.encryptArgsAndCall('store', [1])).rejects.toThrow(
+      'store takes encrypted inputs but has no `bytes inputProof` parameter'
+    );
+  });
+
+  it('checks the JS type of plaintexts before encrypting them', async () => {
+    const contract = createFhevmContract(ADDRESS, ABI, ethers.Wallet.createRandom(), { instance: await createMockFheInstance() });
+
+    await expect(contract.addContribution(1n, '42', true, '')).rejects.toThrow(
+      'addContribution argument amount: euint32 expects a number or bigint, got string'
+    );
+    await expect(contract.addContribution(1n, 2 ** 32, true, '')).rejects.toThrow('euint32 value out of range');
+    await expect(contract.addContribution(1n, 42, 1, '')).rejects.toThrow('expects a boolean, got number');
+  });
+
+  it('reports ABI functions hidden by FhevmContract members', () => {
+    const warn = vi.spyOn(sdkLogger, 'warn').mockImplementation(() => {});
+
+    const contract = createFhevmContract(ADDRESS, ABI, ethers.Wallet.createRandom());
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('ABI functions simulate clash with FhevmContract members'));
+    expect(typeof contract.simulate).toBe('function');
+    warn.mockRestore();
+  });
+});
+
+const READ_ABI: ethers.JsonFragment[] = [
+  {
+    type: 'function',
+    name: 'getEntry',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'id', type: 'bytes32', internalType: 'bytes32' },
+      { name: 'amount', type: 'bytes32', internalType: 'euint32' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'getAmounts',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'bytes32[]', internalType: 'euint32[]' }],
+  },
+];
+
+/**
+ * Handle computed on `chainId` with a recognisable hash
+ */
+function computedHandle(seed: number, type: FheTypeName, chainId = HARDHAT_NETWORK.chainId): string {
+  return ethers.hexlify(ethers.concat([
+    new Uint8Array(21).fill(seed),
+    '0xff',
+    ethers.toBeHex(chainId, 8),
+    ethers.toBeHex(FHE_TYPE_IDS[type], 1),
+    '0x00',
+  ]));
+}
+
+/**
+ * Signer whose `eth_call`s answer with canned results per method
+ */
+function readingSigner(abi: ethers.InterfaceAbi, results: Record<string, unknown[]>): ethers.Signer {
+  const iface = new ethers.Interface(abi);
+  return Object.assign(ethers.Wallet.createRandom(), {
+    call: async (tx: ethers.TransactionRequest) => {
+      const fragment = iface.getFunction(ethers.dataSlice(tx.data!, 0, 4))!;
+      return iface.encodeFunctionResult(fragment, results[fragment.name]);
+    },
+  }) as unknown as ethers.Signer;
+}
+
+describe('readDecrypted', () => {
+  it('decrypts only the outputs declared as encrypted types', async () => {
+    const mock = new MockFheInstance();
+    const id = computedHandle(1, 'euint32');
+    const amount = computedHandle(2, 'euint32');
+    mock.setClearValue(amount, 'euint32', 42);
+    const userDecrypt = vi.spyOn(mock, 'userDecrypt');
+
+    const signer = readingSigner(READ_ABI, { getEntry: [id, amount] });
+    const contract = createFhevmContract(ADDRESS, READ_ABI, signer, { instance: mock });
+
+    const entry = await contract.readDecrypted('getEntry');
+    expect(entry.id).toBe(id);
+    expect(entry.amount).toBe(42n);
+    expect(userDecrypt.mock.calls[0][0]).toEqual([{ handle: amount, contractAddress: ADDRESS }]);
+  });
+
+  it('decrypts every handle of an array output in one request', async () => {
+    const mock = new MockFheInstance();
+    const handles = [computedHandle(3, 'euint32'), computedHandle(4, 'euint32')];
+    handles.forEach((handle, i) => mock.setClearValue(handle, 'euint32', i + 10));
+    const userDecrypt = vi.spyOn(mock, 'userDecrypt');
+
+    const signer = readingSigner(READ_ABI, { getAmounts: [[handles[0], ethers.ZeroHash, handles[1]]] });
+    const contract = createFhevmContract(ADDRESS, READ_ABI, signer, { instance: mock });
+
+    expect(await contract.readDecrypted('getAmounts')).toEqual([10n, 0n, 11n]);
+    expect(userDecrypt).toHaveBeenCalledOnce();
+  });
+
+  it('takes an undeclared bytes32 for a handle only when it belongs to the instance chain', async () => {
+    // Human-readable ABIs carry no internalType
+    const abi = [JSON.parse(ethers.FunctionFragment.from('function getRaw() view returns (bytes32 own, bytes32 foreign)').format('json'))];
+    const mock = new MockFheInstance();
+    const own = computedHandle(5, 'ebool');
+    const foreign = computedHandle(6, 'euint32', 11155111);
+    mock.setClearValue(own, 'ebool', true);
+
+    const contract = createFhevmContract(ADDRESS, abi, readingSigner(abi, { getRaw: [own, foreign] }), { instance: mock });
+    const [decryptedOwn, plainForeign] = await contract.readDecryptedBatch([{ method: 'getRaw' }]).then(([result]) => result);
+    expect(decryptedOwn).toBe(true);
+    expect(plainForeign).toBe(foreign);
+  });
+});
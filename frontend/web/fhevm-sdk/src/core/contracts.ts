@@ -4,15 +4,210 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { batchDecryptValues, createEncryptedInput } from './fhevm.js';
+import { classifyError } from './errors.js';
+import { sdkLogger } from './logger.js';
+import { encryptInputs } from './encryption.js';
+import type { EncryptedInputBuilder } from './encryption.js';
+import { FHE_TYPE_IDS, toDecryptedValue } from './fheTypes.js';
+import type { FheTypeName } from './fheTypes.js';
+import { fheTypeOfHandle, isHandle, parseHandle } from './handles.js';
+import { chainIdOf, resolveFheInstance } from './registry.js';
+import { verifyInputProof } from './proofs.js';
+import { suggestFees, withGasHeadroom } from './simulation.js';
+import type { PreparedTransaction } from './simulation.js';
+import type { DecryptedValue, EncryptedValue, FhevmCallControl, FhevmCallOptions } from './types.js';
+
+/**
+ * Encrypted parameter types as they appear in the `internalType` of a compiled ABI
+ */
+const EXTERNAL_FHE_TYPES: Record<string, FheTypeName> = {
+  externalEbool: 'ebool',
+  externalEuint8: 'euint8',
+  externalEuint16: 'euint16',
+  externalEuint32: 'euint32',
+  externalEuint64: 'euint64',
+  externalEuint128: 'euint128',
+  externalEaddress: 'eaddress',
+  externalEuint256: 'euint256',
+};
+
+/**
+ * Where a method takes its encrypted handles and their input proof
+ */
+interface EncryptedMethod {
+  fragment: ethers.FunctionFragment;
+  /** ABI positions of the handle parameters, in order */
+  encrypted: { index: number; type: FheTypeName }[];
+  /** ABI position of the `bytes inputProof` parameter; -1 when the method has none and cannot be called */
+  proofIndex: number;
+}
+
+export interface FhevmContractOptions extends FhevmCallOptions {
+  /**
+   * Compiled JSON ABI. ethers drops `internalType`, so encrypted parameters
+   * can only be found from the raw ABI, not from `contract.interface`.
+   */
+  abi?: ReadonlyArray<ethers.JsonFragment>;
+  /** Check input proofs against this contract, the signer and the chain before sending (see proofs.ts); defaults to true */
+  inputProofCheck?: boolean;
+}
+
+/**
+ * A method call to read and decrypt in a batch
+ */
+export interface ReadDecryptedCall {
+  method: string;
+  args?: unknown[];
+}
+
+function findProofIndex(inputs: ReadonlyArray<ethers.JsonFragmentType>): number {
+  const named = inputs.findIndex(input => input.type === 'bytes' && input.name === 'inputProof');
+  if (named !== -1) return named;
+
+  const candidates = inputs
+    .map((input, index) => ({ input, index }))
+    .filter(({ input }) => input.type === 'bytes' && /proof/i.test(input.name ?? ''));
+  return candidates.length === 1 ? candidates[0].index : -1;
+}
+
+/**
+ * ABI functions keyed by name (when not overloaded) and by signature
+ */
+function indexFunctions(abi: ReadonlyArray<ethers.JsonFragment>): Map<string, ethers.JsonFragment> {
+  const functions = new Map<string, ethers.JsonFragment>();
+  const overloaded = new Set<string>();
+
+  for (const entry of abi) {
+    if (entry.type !== 'function' || !entry.name) continue;
+    functions.set(ethers.FunctionFragment.from(entry).format('sighash'), entry);
+    if (functions.has(entry.name)) overloaded.add(entry.name);
+    functions.set(entry.name, entry);
+  }
+
+  // An overloaded name is ambiguous; those functions are reachable by signature only
+  for (const name of overloaded) functions.delete(name);
+  return functions;
+}
+
+/**
+ * Methods with externalEuintX / externalEbool / externalEaddress parameters.
+ * One without an input proof is kept with proofIndex -1 and only fails when called.
+ */
+function findEncryptedMethods(functions: Map<string, ethers.JsonFragment>): Map<string, EncryptedMethod> {
+  const methods = new Map<string, EncryptedMethod>();
+
+  for (const [key, entry] of functions) {
+    const inputs = entry.inputs ?? [];
+    const encrypted = inputs
+      .map((input, index) => ({ index, type: EXTERNAL_FHE_TYPES[input.internalType ?? ''] }))
+      .filter(({ type }) => type !== undefined);
+    if (encrypted.length === 0) continue;
+
+    methods.set(key, { fragment: ethers.FunctionFragment.from(entry), encrypted, proofIndex: findProofIndex(inputs) });
+  }
+  return methods;
+}
+
+/**
+ * Encrypted type declared by an output's `internalType` (`euint32`, `ebool`, ...)
+ */
+function declaredFheType(param: ethers.JsonFragmentType): FheTypeName | undefined {
+  const type = param.internalType as FheTypeName | undefined;
+  return type && type in FHE_TYPE_IDS ? type : undefined;
+}
+
+/**
+ * Array element type of `type[]` / `type[N]`, or null for non-arrays
+ */
+function arrayChild(param: ethers.JsonFragmentType): ethers.JsonFragmentType | null {
+  const match = param.type?.match(/^(.*)\[\d*\]$/);
+  if (!match) return null;
+  return {
+    ...param,
+    type: match[1],
+    internalType: param.internalType?.replace(/\[\d*\]$/, ''),
+  };
+}
+
+/**
+ * Walk a decoded value along its ABI type and call `visit` on every ciphertext handle.
+ * Handles are found from the declared `euintX` type when the ABI has it. Without an
+ * `internalType` (human-readable ABIs), a bytes32 counts only if `isOwnHandle` accepts it,
+ * so ids and hashes are not sent to the relayer. `visit` returns the replacement;
+ * arrays and tuples are rebuilt around it.
+ */
+function mapHandles(
+  value: any,
+  param: ethers.JsonFragmentType,
+  isOwnHandle: (value: string) => boolean,
+  visit: (handle: string, type: FheTypeName) => unknown
+): any {
+  const child = arrayChild(param);
+  if (child) {
+    return (value as any[]).map(item => mapHandles(item, child, isOwnHandle, visit));
+  }
+  if (param.type === 'tuple') {
+    const components = param.components ?? [];
+    return ethers.Result.fromItems(
+      components.map((component, i) => mapHandles(value[i], component, isOwnHandle, visit)),
+      components.map(component => component.name || null)
+    );
+  }
+  if (param.type !== 'bytes32') return value;
+
+  const declared = declaredFheType(param);
+  if (declared) return visit(value, declared);
+  if (param.internalType === undefined && value !== ethers.ZeroHash && isOwnHandle(value)) {
+    return visit(value, fheTypeOfHandle(value)!);
+  }
+  return value;
+}
+
+/**
+ * Add a caller's plaintext after checking its JS type; the builder checks ranges
+ */
+function addPlaintext(builder: EncryptedInputBuilder, type: FheTypeName, value: unknown, label: string): void {
+  if (type === 'ebool') {
+    if (typeof value !== 'boolean') throw new Error(`${label}: ${type} expects a boolean, got ${typeof value}`);
+    builder.bool(value);
+    return;
+  }
+  if (type === 'eaddress') {
+    if (typeof value !== 'string') throw new Error(`${label}: ${type} expects an address string, got ${typeof value}`);
+    builder.address(value);
+    return;
+  }
+  if (typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new Error(`${label}: ${type} expects a number or bigint, got ${typeof value}`);
+  }
+  switch (type) {
+    case 'euint8': builder.u8(value); break;
+    case 'euint16': builder.u16(value); break;
+    case 'euint32': builder.u32(value); break;
+    case 'euint64': builder.u64(value); break;
+    case 'euint128': builder.u128(value); break;
+    case 'euint256': builder.u256(value); break;
+  }
+}
+
+function isOverrides(value: unknown): value is ethers.Overrides {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+}
 
 export class FhevmContract {
   private contract: ethers.Contract;
   private address: string;
+  private readonly options?: FhevmContractOptions;
+  private readonly functions: Map<string, ethers.JsonFragment>;
+  private readonly encryptedMethods: Map<string, EncryptedMethod>;
 
-  constructor(contract: ethers.Contract, address: string) {
+  constructor(contract: ethers.Contract, address: string, options?: FhevmContractOptions) {
     this.contract = contract;
     this.address = address;
+    this.options = options;
+    this.functions = indexFunctions(options?.abi ?? []);
+    this.encryptedMethods = findEncryptedMethods(this.functions);
   }
 
   /**
@@ -20,10 +215,16 @@ export class FhevmContract {
    */
   async encryptAndCall(
     functionName: string,
-    encryptedParams: any,
+    encryptedParams: EncryptedValue,
     ...additionalParams: any[]
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    await this.checkInputProof([encryptedParams.encryptedData], encryptedParams.proof);
+    try {
+      return await this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    } catch (error) {
+      // Reverts are decoded against this contract's ABI, including custom errors
+      throw classifyError(error, this.contract.interface);
+    }
   }
 
   /**
@@ -31,23 +232,294 @@ export class FhevmContract {
    */
   async encryptAndCallAndWait(
     functionName: string,
-    encryptedParams: any,
+    encryptedParams: EncryptedValue,
     ...additionalParams: any[]
   ): Promise<ethers.TransactionReceipt> {
     const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      throw classifyError(error, this.contract.interface);
+    }
     if (!receipt) {
-      throw new Error("Transaction receipt is null");
+      throw new Error(`Transaction ${tx.hash} has no receipt; it may have been dropped or replaced`);
     }
     return receipt;
   }
 
+  /**
+   * Call any contract method by name or signature; reverts are decoded against the ABI
+   */
+  async callMethod(method: string, ...args: unknown[]): Promise<any> {
+    try {
+      return await this.contract.getFunction(method)(...args);
+    } catch (error) {
+      throw classifyError(error, this.contract.interface);
+    }
+  }
+
+  /**
+   * Whether `method` (a name or a signature) takes encrypted inputs per the ABI
+   */
+  hasEncryptedInputs(method: string): boolean {
+    return this.encryptedMethods.has(method);
+  }
+
+  /**
+   * Call a method with plaintext values for its encrypted parameters. `args` follow the
+   * ABI order without the input proof, optionally followed by ethers overrides;
+   * every encrypted value goes into one input, bound to the signer's address.
+   */
+  async encryptArgsAndCall(method: string, args: unknown[], control?: FhevmCallControl): Promise<ethers.ContractTransactionResponse> {
+    if (!this.encryptedMethods.has(method)) {
+      throw new Error(`${method} has no encrypted parameters in the ABI passed to FhevmContract`);
+    }
+    const { fragment, abiArgs, overrides } = await this.prepareCall(method, args, control);
+
+    try {
+      const fn = this.contract.getFunction(fragment);
+      return await fn(...abiArgs, ...(overrides ? [overrides] : []));
+    } catch (error) {
+      throw classifyError(error, this.contract.interface);
+    }
+  }
+
+  /**
+   * Run a call with `staticCall` and `estimateGas` without sending it. Reverts throw
+   * ContractRevertError decoded against the ABI (e.g. `InvalidKMSSignatures`); on success
+   * the prepared transaction carries the gas estimate and a fee suggestion to show before
+   * the user signs. `args` are as for the proxied method: plaintexts for encrypted parameters.
+   */
+  async simulate(method: string, args: unknown[] = [], control?: FhevmCallControl): Promise<PreparedTransaction> {
+    const { fragment, abiArgs, overrides } = await this.prepareCall(method, args, control);
+    const fn = this.contract.getFunction(fragment);
+    const callArgs = [...abiArgs, ...(overrides ? [overrides] : [])];
+
+    let result: any;
+    let gasEstimate: bigint;
+    let transaction: ethers.ContractTransaction;
+    try {
+      result = await fn.staticCall(...callArgs);
+      gasEstimate = await fn.estimateGas(...callArgs);
+      transaction = await fn.populateTransaction(...callArgs);
+    } catch (error) {
+      throw classifyError(error, this.contract.interface);
+    }
+
+    const gasLimit = overrides?.gasLimit != null ? ethers.getBigInt(overrides.gasLimit) : withGasHeadroom(gasEstimate);
+    const fees = await suggestFees(this.contract.runner, gasEstimate, gasLimit);
+
+    return {
+      method,
+      transaction: { ...transaction, gasLimit },
+      result,
+      gasEstimate,
+      gasLimit,
+      fees,
+      send: async () => {
+        try {
+          return await fn(...abiArgs, { ...overrides, gasLimit });
+        } catch (error) {
+          throw classifyError(error, this.contract.interface);
+        }
+      },
+    };
+  }
+
+  /**
+   * Fragment and ABI arguments of a call. Methods with encrypted parameters take
+   * plaintexts, encrypted into one input for the signer; other methods take their ABI
+   * arguments as-is. Trailing ethers overrides are split off.
+   */
+  private async prepareCall(
+    method: string,
+    args: unknown[],
+    control?: FhevmCallControl
+  ): Promise<{ fragment: ethers.FunctionFragment; abiArgs: unknown[]; overrides?: ethers.Overrides }> {
+    const plan = this.encryptedMethods.get(method);
+    if (plan?.proofIndex === -1) {
+      throw new Error(`${plan.fragment.name} takes encrypted inputs but has no \`bytes inputProof\` parameter`);
+    }
+    const fragment = plan?.fragment ?? this.contract.interface.getFunction(method);
+    if (!fragment) {
+      throw new Error(`Method ${method} not found in the contract ABI`);
+    }
+
+    const { inputs } = fragment;
+    const expected = plan ? inputs.length - 1 : inputs.length;
+    let overrides: ethers.Overrides | undefined;
+    if (args.length === expected + 1 && isOverrides(args[expected])) {
+      overrides = args[expected] as ethers.Overrides;
+      args = args.slice(0, expected);
+    } else if (args.length !== expected) {
+      const excluded = plan ? ' (input proof excluded)' : '';
+      throw new Error(`${fragment.name} expects ${expected} arguments${excluded}, got ${args.length}`);
+    }
+    if (!plan) return { fragment, abiArgs: args, overrides };
+
+    // Positions of the caller's arguments in the ABI: the proof is the only one skipped
+    const abiArgs: unknown[] = [];
+    for (let index = 0, next = 0; index < inputs.length; index++) {
+      abiArgs.push(index === plan.proofIndex ? undefined : args[next++]);
+    }
+
+    const builder = this.encryptInputs(await this.signerAddress());
+    for (const { index, type } of plan.encrypted) {
+      addPlaintext(builder, type, abiArgs[index], `${plan.fragment.name} argument ${inputs[index].name || index}`);
+    }
+    const { handles, inputProof } = await builder.encrypt(control);
+    await this.checkInputProof(handles.map(({ handle }) => handle), inputProof);
+
+    plan.encrypted.forEach(({ index }, i) => {
+      abiArgs[index] = handles[i].handle;
+    });
+    abiArgs[plan.proofIndex] = inputProof;
+    return { fragment, abiArgs, overrides };
+  }
+
+  private signer(): ethers.Signer {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (typeof runner?.getAddress !== 'function') {
+      throw new Error('Encrypting and decrypting need a contract connected to a signer');
+    }
+    return runner;
+  }
+
+  private async signerAddress(): Promise<string> {
+    return this.signer().getAddress();
+  }
+
+  /**
+   * Fail fast with InvalidInputProofError on a malformed proof or one issued for
+   * another contract, user or chain, instead of a reverted transaction
+   */
+  private async checkInputProof(handles: ethers.BytesLike[], inputProof: ethers.BytesLike): Promise<void> {
+    if (this.options?.inputProofCheck === false) return;
+    await verifyInputProof(handles, inputProof, this.address, await this.signerAddress(), { instance: this.options?.instance });
+  }
+
+  /**
+   * Call a view method that returns handles and decrypt them.
+   * The result has the method's return shape: a single value, a tuple or an array.
+   */
+  async readDecrypted<T = any>(method: string, ...args: unknown[]): Promise<T> {
+    const [result] = await this.readDecryptedBatch([{ method, args }]);
+    return result as T;
+  }
+
+  /**
+   * Read several view methods and decrypt every returned handle in one user-decryption
+   * request (one signature at most). Results are in call order.
+   */
+  async readDecryptedBatch(calls: ReadDecryptedCall[]): Promise<any[]> {
+    const reads = await Promise.all(calls.map(async ({ method, args = [] }) => {
+      const fragment = this.functionJson(method);
+      try {
+        const result = await this.contract.getFunction(ethers.FunctionFragment.from(fragment)).staticCallResult(...args);
+        return { outputs: fragment.outputs ?? [], result };
+      } catch (error) {
+        throw classifyError(error, this.contract.interface);
+      }
+    }));
+
+    // An undeclared bytes32 must parse as a handle of this instance's chain; a plain id or
+    // hash matches the type byte by chance far more often than all 8 chain id bytes
+    let chainId: number | undefined;
+    const isOwnHandle = (value: string) => {
+      if (!isHandle(value)) return false;
+      chainId ??= chainIdOf(resolveFheInstance(this.options?.instance));
+      return parseHandle(value).chainId === chainId;
+    };
+
+    const handles = new Set<string>();
+    for (const { outputs, result } of reads) {
+      outputs.forEach((output, i) => mapHandles(result[i], output, isOwnHandle, handle => {
+        // An unset ciphertext is the zero handle and reads as the type's zero value
+        if (handle !== ethers.ZeroHash) handles.add(handle);
+      }));
+    }
+
+    const clearValues: Record<string, DecryptedValue> = handles.size > 0
+      ? await batchDecryptValues([...handles], this.address, this.signer(), this.options)
+      : {};
+
+    return reads.map(({ outputs, result }) => {
+      const decoded = outputs.map((output, i) => mapHandles(result[i], output, isOwnHandle, (handle, type) =>
+        handle === ethers.ZeroHash ? toDecryptedValue(type, 0n) : clearValues[handle]
+      ));
+      if (decoded.length === 1) return decoded[0];
+      return ethers.Result.fromItems(decoded, outputs.map(output => output.name || null));
+    });
+  }
+
+  /**
+   * JSON ABI entry of a method: from the compiled ABI when given (keeps `internalType`),
+   * else from the ethers interface
+   */
+  private functionJson(method: string): ethers.JsonFragment {
+    const entry = this.functions.get(method);
+    if (entry) return entry;
+    const fragment = this.contract.interface.getFunction(method);
+    if (!fragment) {
+      throw new Error(`Method ${method} not found in the contract ABI`);
+    }
+    return JSON.parse(fragment.format('json'));
+  }
+
   /**
    * Create encrypted input for contract
    */
-  async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+  async createEncryptedInput(userAddress: string, value: number, options?: FhevmCallOptions): Promise<EncryptedValue> {
+    return createEncryptedInput(this.address, userAddress, value, options ?? this.options);
+  }
+
+  /**
+   * Start a multi-value encrypted input for this contract
+   */
+  encryptInputs(userAddress: string, options?: FhevmCallOptions): EncryptedInputBuilder {
+    return encryptInputs(this.address, userAddress, options ?? this.options);
   }
 }
 
+/**
+ * FhevmContract whose ABI methods can be called directly. Methods with encrypted
+ * parameters take plaintexts (`contract.addContribution(id, 42)`) and are encrypted
+ * automatically; every other method is the plain ethers method.
+ */
+export type FhevmContractProxy = FhevmContract & {
+  [method: string]: (...args: any[]) => Promise<any>;
+};
+
+/**
+ * Create an ABI-aware contract. `abi` must be the compiled JSON ABI, which keeps
+ * the `externalEuintX` internal types. ABI functions named like a FhevmContract member
+ * (`simulate`, `connect`, ...) are not proxied: call them through `encryptArgsAndCall`
+ * or `callMethod`.
+ */
+export function createFhevmContract(
+  address: string,
+  abi: ReadonlyArray<ethers.JsonFragment>,
+  runner: ethers.ContractRunner,
+  options?: Omit<FhevmContractOptions, 'abi'>
+): FhevmContractProxy {
+  const contract = new ethers.Contract(address, abi as ethers.JsonFragment[], runner);
+  const fhevmContract = new FhevmContract(contract, address, { ...options, abi });
+
+  const shadowed = [...new Set(abi.filter(entry => entry.type === 'function' && entry.name && entry.name in fhevmContract).map(entry => entry.name))];
+  if (shadowed.length > 0) {
+    sdkLogger.warn(`ABI functions ${shadowed.join(', ')} clash with FhevmContract members; call them through encryptArgsAndCall or callMethod`);
+  }
 
+  return new Proxy(fhevmContract, {
+    get(target, prop, receiver) {
+      if (typeof prop !== 'string' || prop in target) {
+        return Reflect.get(target, prop, receiver);
+      }
+      if (target.hasEncryptedInputs(prop)) {
+        return (...args: unknown[]) => target.encryptArgsAndCall(prop, args);
+      }
+      return contract[prop];
+    },
+  }) as FhevmContractProxy;
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { encryptInputs } from './encryption.js';
+import { createMockFheInstance } from './mock.js';
+import { parseHandle } from './handles.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+
+const builder = () => encryptInputs(CONTRACT, USER);
+
+describe('EncryptedInputBuilder', () => {
+  it('rejects invalid contract and user addresses', () => {
+    expect(() => encryptInputs('0x1234', USER)).toThrow('Invalid contract address: 0x1234');
+    expect(() => encryptInputs(CONTRACT, 'alice')).toThrow('Invalid user address: alice');
+  });
+
+  it('accepts the full range of each integer type', () => {
+    expect(builder().u8(0).u8(255).u16(65535).u32(2 ** 32 - 1).u64(2n ** 64n - 1n).u256(2n ** 256n - 1n).types)
+      .toEqual(['euint8', 'euint8', 'euint16', 'euint32', 'euint64', 'euint256']);
+  });
+
+  it('rejects values outside the type range', () => {
+    expect(() => builder().u8(256)).toThrow('euint8 value out of range: 256 (expected 0 to 255)');
+    expect(() => builder().u16(-1)).toThrow('euint16 value out of range');
+    expect(() => builder().u128(2n ** 128n)).toThrow('euint128 value out of range');
+  });
+
+  it('rejects numbers that are not safe integers', () => {
+    expect(() => builder().u64(2 ** 53)).toThrow('must be a safe integer');
+    expect(() => builder().u32(1.5)).toThrow('must be a safe integer');
+    expect(builder().u64(2n ** 53n).types).toEqual(['euint64']);
+  });
+
+  it('checks booleans and addresses', () => {
+    expect(() => builder().bool(1 as unknown as boolean)).toThrow('ebool value must be a boolean');
+    expect(() => builder().address('0xnope')).toThrow('Invalid eaddress value: 0xnope');
+  });
+
+  it('caps one input at 2048 bits', () => {
+    const full = builder();
+    for (let i = 0; i < 8; i++) full.u256(i);
+    expect(() => full.bool(true)).toThrow('Encrypted input exceeds 2048 bits');
+    expect(full.types).toHaveLength(8);
+
+    // ebool counts 2 bits
+    const mixed = builder().u256(0).u256(0).u256(0).u256(0).u256(0).u256(0).u256(0).u128(0).u64(0).u32(0).u16(0).u8(0);
+    expect(() => mixed.bool(false).bool(false).bool(false).bool(false).bool(false)).toThrow('exceeds 2048 bits');
+  });
+
+  it('refuses to encrypt an empty input', async () => {
+    await expect(builder().encrypt()).rejects.toThrow('Encrypted input is empty');
+  });
+
+  it('returns one typed handle per value under a single proof', async () => {
+    const mock = await createMockFheInstance();
+    const { handles, inputProof } = await encryptInputs(CONTRACT, USER, { instance: mock })
+      .bool(true)
+      .u64(5)
+      .address(USER)
+      .encrypt();
+
+    expect(handles.map(({ type }) => type)).toEqual(['ebool', 'euint64', 'eaddress']);
+    expect(handles.map(({ handle }) => parseHandle(handle).index)).toEqual([0, 1, 2]);
+    expect(inputProof).toMatch(/^0x03/);
+  });
+});
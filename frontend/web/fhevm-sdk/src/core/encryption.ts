@@ -0,0 +1,169 @@
+/**
+ * FHEVM Encryption - Universal SDK
+ * Fluent builder for encrypted inputs with several values and types in one proof
+ */
+
+import { ethers } from 'ethers';
+import { FHE_INPUT_BITS, FHE_TYPE_BITS } from './fheTypes.js';
+import type { FheTypeName } from './fheTypes.js';
+import { classifyError } from './errors.js';
+import { runWithPolicy } from './policy.js';
+import { resolveFheInstance } from './registry.js';
+import type { EncryptedInputResult, FhevmCallControl, FhevmCallOptions, FhevmEncryptedInput } from './types.js';
+
+type Hex = `0x${string}`;
+
+/**
+ * Ciphertext handle tagged with its encrypted type
+ */
+export interface TypedHandle {
+  handle: Hex;
+  type: FheTypeName;
+}
+
+export interface EncryptedInputs {
+  /** One handle per added value, in the order they were added */
+  handles: TypedHandle[];
+  /** Single proof covering every handle */
+  inputProof: Hex;
+}
+
+// Upper bound the relayer accepts for one input proof
+const MAX_INPUT_BITS = 2048;
+
+type PendingValue =
+  | { type: 'ebool'; value: boolean }
+  | { type: 'eaddress'; value: string }
+  | { type: Exclude<FheTypeName, 'ebool' | 'eaddress'>; value: bigint };
+
+function checkUint(type: FheTypeName, value: number | bigint): bigint {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new Error(`${type} value must be a safe integer, got ${value}. Pass a bigint for large values.`);
+  }
+  const asBigInt = BigInt(value);
+  const max = (1n << BigInt(FHE_TYPE_BITS[type])) - 1n;
+  if (asBigInt < 0n || asBigInt > max) {
+    throw new Error(`${type} value out of range: ${value} (expected 0 to ${max})`);
+  }
+  return asBigInt;
+}
+
+export class EncryptedInputBuilder {
+  private readonly values: PendingValue[] = [];
+
+  constructor(
+    private readonly contractAddress: string,
+    private readonly userAddress: string,
+    private readonly options?: FhevmCallOptions
+  ) {
+    if (!ethers.isAddress(contractAddress)) throw new Error(`Invalid contract address: ${contractAddress}`);
+    if (!ethers.isAddress(userAddress)) throw new Error(`Invalid user address: ${userAddress}`);
+  }
+
+  private push(entry: PendingValue): this {
+    const usedBits = this.values.reduce((sum, { type }) => sum + FHE_INPUT_BITS[type], 0);
+    if (usedBits + FHE_INPUT_BITS[entry.type] > MAX_INPUT_BITS) {
+      throw new Error(`Encrypted input exceeds ${MAX_INPUT_BITS} bits`);
+    }
+    this.values.push(entry);
+    return this;
+  }
+
+  bool(value: boolean): this {
+    if (typeof value !== 'boolean') throw new Error(`ebool value must be a boolean, got ${value}`);
+    return this.push({ type: 'ebool', value });
+  }
+
+  u8(value: number | bigint): this {
+    return this.push({ type: 'euint8', value: checkUint('euint8', value) });
+  }
+
+  u16(value: number | bigint): this {
+    return this.push({ type: 'euint16', value: checkUint('euint16', value) });
+  }
+
+  u32(value: number | bigint): this {
+    return this.push({ type: 'euint32', value: checkUint('euint32', value) });
+  }
+
+  u64(value: number | bigint): this {
+    return this.push({ type: 'euint64', value: checkUint('euint64', value) });
+  }
+
+  u128(value: number | bigint): this {
+    return this.push({ type: 'euint128', value: checkUint('euint128', value) });
+  }
+
+  u256(value: number | bigint): this {
+    return this.push({ type: 'euint256', value: checkUint('euint256', value) });
+  }
+
+  address(value: string): this {
+    if (!ethers.isAddress(value)) throw new Error(`Invalid eaddress value: ${value}`);
+    return this.push({ type: 'eaddress', value: ethers.getAddress(value) });
+  }
+
+  /**
+   * Types of the values added so far, in order
+   */
+  get types(): FheTypeName[] {
+    return this.values.map(({ type }) => type);
+  }
+
+  /**
+   * Encrypt every added value into one input proof.
+   * `control` overrides the signal, timeout and retries given to encryptInputs().
+   */
+  async encrypt(control?: FhevmCallControl): Promise<EncryptedInputs> {
+    if (this.values.length === 0) throw new Error('Encrypted input is empty');
+
+    let result: EncryptedInputResult;
+    try {
+      const fhe = resolveFheInstance(this.options?.instance);
+      const input = fhe.createEncryptedInput(this.contractAddress, this.userAddress);
+      for (const entry of this.values) {
+        addToInput(input, entry);
+      }
+
+      result = await runWithPolicy('encrypt', () => input.encrypt(), { ...this.options, ...control });
+    } catch (error) {
+      throw classifyError(error);
+    }
+    if (result.handles.length !== this.values.length) {
+      throw new Error(`Expected ${this.values.length} handles, relayer returned ${result.handles.length}`);
+    }
+
+    return {
+      handles: result.handles.map((handle, i) => ({
+        handle: ethers.hexlify(handle) as Hex,
+        type: this.values[i].type,
+      })),
+      inputProof: ethers.hexlify(result.inputProof) as Hex,
+    };
+  }
+}
+
+function addToInput(input: FhevmEncryptedInput, entry: PendingValue): void {
+  switch (entry.type) {
+    case 'ebool': input.addBool(entry.value); break;
+    case 'euint8': input.add8(entry.value); break;
+    case 'euint16': input.add16(entry.value); break;
+    case 'euint32': input.add32(entry.value); break;
+    case 'euint64': input.add64(entry.value); break;
+    case 'euint128': input.add128(entry.value); break;
+    case 'euint256': input.add256(entry.value); break;
+    case 'eaddress': input.addAddress(entry.value); break;
+  }
+}
+
+/**
+ * Start a multi-value encrypted input:
+ * `encryptInputs(contract, user).bool(x).u8(y).u64(z).address(a).encrypt()`
+ */
+export function encryptInputs(
+  contractAddress: string,
+  userAddress: string,
+  options?: FhevmCallOptions
+): EncryptedInputBuilder {
+  return new EncryptedInputBuilder(contractAddress, userAddress, options);
+}
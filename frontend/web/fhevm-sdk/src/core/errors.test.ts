@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  classifyError,
+  ContractRevertError,
+  decodeRevert,
+  FHEVM_LIBRARY_ERRORS_ABI,
+  FhevmAbortedError,
+  InvalidInputProofError,
+  RelayerUnavailableError,
+  UserRejectedSignatureError,
+} from './errors.js';
+import { createEncryptedInput, encryptValue } from './fhevm.js';
+import { MockFheInstance } from './mock.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+
+function callException(data: string): Error {
+  return ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data,
+    reason: null,
+    transaction: { to: CONTRACT, data: '0x' },
+    invocation: null,
+    revert: null,
+  });
+}
+
+describe('classifyError', () => {
+  it('maps wallet rejections from EIP-1193 and ethers', () => {
+    expect(classifyError({ code: 4001, message: 'User denied message signature' })).toBeInstanceOf(UserRejectedSignatureError);
+    expect(classifyError({ info: { error: { code: 4001 } } })).toBeInstanceOf(UserRejectedSignatureError);
+
+    const rejected = ethers.makeError('user rejected action', 'ACTION_REJECTED', { action: 'signTypedData', reason: 'rejected' });
+    const error = classifyError(rejected) as UserRejectedSignatureError;
+    expect(error).toBeInstanceOf(UserRejectedSignatureError);
+    expect(error.cause).toBe(rejected);
+  });
+
+  it('decodes CALL_EXCEPTION data against the FHEVM library errors', () => {
+    const data = new ethers.Interface(FHEVM_LIBRARY_ERRORS_ABI).encodeErrorResult('InvalidKMSSignatures', []);
+    const error = classifyError(callException(data)) as ContractRevertError;
+
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({ errorName: 'InvalidKMSSignatures', reason: 'InvalidKMSSignatures()', data });
+  });
+
+  it('prefers the caller ABI and reads require() messages', () => {
+    const iface = new ethers.Interface(['error NotOwner(address account)']);
+    const custom = decodeRevert(callException(iface.encodeErrorResult('NotOwner', [USER])), iface);
+    expect(custom).toMatchObject({ errorName: 'NotOwner', reason: `NotOwner(${USER})` });
+
+    const message = ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Too late'])]);
+    expect(decodeRevert({ info: { error: { data: message } } })).toMatchObject({ reason: 'Too late', errorName: 'Error' });
+  });
+
+  it('maps relayer causes by operation and HTTP status', () => {
+    const relayerError = (operation: string, status: number) =>
+      Object.assign(new Error(`Relayer responded with ${status}`), { cause: { code: 'RELAYER_FETCH_ERROR', operation, status } });
+
+    expect(classifyError(relayerError('INPUT_PROOF', 400))).toBeInstanceOf(InvalidInputProofError);
+    expect(classifyError(relayerError('INPUT_PROOF', 429))).toBeInstanceOf(RelayerUnavailableError);
+    expect(classifyError(relayerError('PUBLIC_DECRYPT', 503))).toMatchObject({ name: 'RelayerUnavailableError', status: 503 });
+  });
+
+  it('maps aborts and network failures and returns anything else unchanged', () => {
+    expect(classifyError(new DOMException('aborted', 'AbortError'))).toBeInstanceOf(FhevmAbortedError);
+    expect(classifyError(new TypeError('fetch failed'))).toBeInstanceOf(RelayerUnavailableError);
+
+    const other = new Error('something else');
+    expect(classifyError(other)).toBe(other);
+  });
+});
+
+describe('encryption entry points', () => {
+  it('classify failures raised before the relayer call', async () => {
+    const mock = new MockFheInstance();
+    vi.spyOn(mock, 'createEncryptedInput').mockImplementation(() => {
+      throw new TypeError('fetch failed');
+    });
+
+    await expect(encryptValue(CONTRACT, USER, [1], { instance: mock })).rejects.toBeInstanceOf(RelayerUnavailableError);
+    await expect(createEncryptedInput(CONTRACT, USER, 1, { instance: mock })).rejects.toBeInstanceOf(RelayerUnavailableError);
+  });
+});
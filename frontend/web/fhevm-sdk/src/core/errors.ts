@@ -0,0 +1,259 @@
+/**
+ * FHEVM Errors - Universal SDK
+ * Typed failures so callers can branch with `instanceof` instead of matching message text
+ */
+
+import { ethers } from 'ethers';
+import type { ClearValues } from './types.js';
+
+type Hex = `0x${string}`;
+
+export class FhevmError extends Error {
+  /** Underlying error from the wallet, relayer SDK or ethers */
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'FhevmError';
+    this.cause = cause;
+  }
+}
+
+export class FhevmNotInitializedError extends FhevmError {
+  constructor(readonly chainId?: number) {
+    const scope = chainId === undefined ? '' : ` for chain ${chainId}`;
+    super(`FHE instance not initialized${scope}. Call initializeFheInstance() first.`);
+    this.name = 'FhevmNotInitializedError';
+  }
+}
+
+export class RelayerUnavailableError extends FhevmError {
+  constructor(
+    message = 'Decryption service is temporarily unavailable. Please try again later.',
+    cause?: unknown,
+    /** HTTP status returned by the relayer, if any */
+    readonly status?: number
+  ) {
+    super(message, cause);
+    this.name = 'RelayerUnavailableError';
+  }
+}
+
+/**
+ * A relayer call did not settle within its timeout (see setCallPolicy)
+ */
+export class FhevmTimeoutError extends FhevmError {
+  constructor(readonly operation: string, readonly timeoutMs: number) {
+    super(`${operation} timed out after ${timeoutMs} ms`);
+    this.name = 'FhevmTimeoutError';
+  }
+}
+
+/**
+ * The caller aborted the request through its AbortSignal
+ */
+export class FhevmAbortedError extends FhevmError {
+  constructor(cause?: unknown) {
+    super('Request was cancelled', cause);
+    this.name = 'FhevmAbortedError';
+  }
+}
+
+/**
+ * The user dismissed a wallet prompt (EIP-712 signature or transaction)
+ */
+export class UserRejectedSignatureError extends FhevmError {
+  constructor(message = 'User rejected the request in the wallet', cause?: unknown) {
+    super(message, cause);
+    this.name = 'UserRejectedSignatureError';
+  }
+}
+
+/**
+ * The relayer or coprocessors refused to prove an encrypted input, or the proof did not verify
+ */
+export class InvalidInputProofError extends FhevmError {
+  constructor(message = 'Encrypted input proof is invalid', cause?: unknown) {
+    super(message, cause);
+    this.name = 'InvalidInputProofError';
+  }
+}
+
+/**
+ * The ACL does not allow this user, contract or the public to decrypt the handle
+ */
+export class DecryptionNotAllowedError extends FhevmError {
+  constructor(
+    readonly handle?: string,
+    message = handle ? `Decryption of handle ${handle} is not allowed` : 'Decryption is not allowed',
+    cause?: unknown
+  ) {
+    super(message, cause);
+    this.name = 'DecryptionNotAllowedError';
+  }
+}
+
+/**
+ * A WASM asset did not match its configured integrity hash
+ */
+export class AssetIntegrityError extends FhevmError {
+  constructor(readonly url: string, readonly expected: string, readonly actual: string) {
+    super(`Integrity check failed for ${url}: expected ${expected}, got ${actual}`);
+    this.name = 'AssetIntegrityError';
+  }
+}
+
+export interface DecodedRevert {
+  /** Human-readable reason: the require() message or `ErrorName(args)` */
+  reason: string | null;
+  /** Custom error name, when the revert data matched a known error */
+  errorName?: string;
+  args?: unknown[];
+  data?: Hex;
+}
+
+export class ContractRevertError extends FhevmError {
+  readonly reason: string | null;
+  readonly errorName?: string;
+  readonly args?: unknown[];
+  readonly data?: Hex;
+
+  constructor(revert: DecodedRevert, cause?: unknown) {
+    super(`Contract reverted: ${revert.reason ?? 'unknown reason'}`, cause);
+    this.name = 'ContractRevertError';
+    this.reason = revert.reason;
+    this.errorName = revert.errorName;
+    this.args = revert.args;
+    this.data = revert.data;
+  }
+}
+
+/**
+ * Thrown when the relayer returned cleartexts but no KMS decryption proof.
+ * `FHE.checkSignatures` can never accept such a result, so it must not be sent on-chain.
+ * The cleartexts are attached for callers that only need to display them.
+ */
+export class DecryptionProofUnavailableError extends FhevmError {
+  constructor(
+    readonly format: 'v0.9' | 'legacy',
+    readonly clearValues: ClearValues,
+    readonly abiEncodedClearValues: Hex
+  ) {
+    super(
+      'Decryption proof unavailable: the relayer SDK returned cleartexts without a KMS signature. ' +
+      'Upgrade to @zama-fhe/relayer-sdk 0.3 or later to verify decryptions on-chain.'
+    );
+    this.name = 'DecryptionProofUnavailableError';
+  }
+}
+
+/**
+ * The KMS signatures in a decryption proof do not verify for these handles and cleartexts;
+ * `FHE.checkSignatures` would revert with `InvalidKMSSignatures`
+ */
+export class InvalidDecryptionProofError extends FhevmError {
+  constructor(message = 'Decryption proof does not carry enough valid KMS signatures', cause?: unknown) {
+    super(message, cause);
+    this.name = 'InvalidDecryptionProofError';
+  }
+}
+
+const USER_REJECTED_CODE = 4001;
+
+function isUserRejection(error: any): boolean {
+  if (ethers.isError(error, 'ACTION_REJECTED')) return true;
+  return [error?.code, error?.error?.code, error?.info?.error?.code].includes(USER_REJECTED_CODE);
+}
+
+function revertData(error: any): Hex | undefined {
+  const data = error?.data ?? error?.info?.error?.data ?? error?.error?.data;
+  return typeof data === 'string' && ethers.isHexString(data) ? data as Hex : undefined;
+}
+
+/**
+ * Custom errors the FHEVM Solidity library can raise from any contract using it
+ * (FHE.checkSignatures, ZamaConfig), even when the caller's ABI leaves them out
+ */
+export const FHEVM_LIBRARY_ERRORS_ABI = [
+  'error InvalidKMSSignatures()',
+  'error ZamaProtocolUnsupported()',
+];
+
+const fhevmLibraryErrors = new ethers.Interface(FHEVM_LIBRARY_ERRORS_ABI);
+
+/**
+ * Decode the revert reason of a failed call. Custom errors are resolved against `iface`,
+ * then against the FHEVM library errors.
+ */
+export function decodeRevert(error: unknown, iface?: ethers.Interface): DecodedRevert {
+  const err = error as any;
+  const data = revertData(err);
+
+  if (err?.revert?.name) {
+    const args = Array.from(err.revert.args ?? []);
+    return { reason: err.reason ?? `${err.revert.name}(${args.join(', ')})`, errorName: err.revert.name, args, data };
+  }
+
+  if (data && ethers.dataLength(data) >= 4) {
+    const parsed = iface?.parseError(data) ?? fhevmLibraryErrors.parseError(data);
+    if (parsed) {
+      const args = Array.from(parsed.args);
+      const reason = parsed.name === 'Error' ? String(args[0]) : `${parsed.name}(${args.join(', ')})`;
+      return { reason, errorName: parsed.name, args, data };
+    }
+  }
+
+  return { reason: err?.reason ?? err?.shortMessage ?? null, data };
+}
+
+function relayerCause(error: any): { code: string; operation?: string; status?: number } | null {
+  const cause = error?.cause;
+  return typeof cause?.code === 'string' && cause.code.startsWith('RELAYER_') ? cause : null;
+}
+
+/**
+ * Map a low-level failure to the matching FhevmError.
+ * Errors that match no category are returned unchanged.
+ */
+export function classifyError(error: unknown, iface?: ethers.Interface): unknown {
+  if (error instanceof FhevmError) return error;
+
+  const err = error as any;
+  const message: string = typeof err?.message === 'string' ? err.message : '';
+
+  if (err?.name === 'AbortError') {
+    return new FhevmAbortedError(error);
+  }
+
+  if (isUserRejection(err)) {
+    return new UserRejectedSignatureError(undefined, error);
+  }
+
+  if (ethers.isError(err, 'CALL_EXCEPTION')) {
+    return new ContractRevertError(decodeRevert(err, iface), error);
+  }
+
+  const relayer = relayerCause(err);
+  if (relayer) {
+    const clientError = relayer.status !== undefined && relayer.status >= 400 && relayer.status < 500 && relayer.status !== 429;
+    if (relayer.operation === 'INPUT_PROOF' && clientError) {
+      return new InvalidInputProofError(message, error);
+    }
+    return new RelayerUnavailableError(message || undefined, error, relayer.status);
+  }
+
+  if (/not authorized to user decrypt|is not allowed for public decryption/.test(message)) {
+    const handle = message.match(/0x[0-9a-fA-F]{64}/)?.[0];
+    return new DecryptionNotAllowedError(handle, message, error);
+  }
+
+  if (/coprocessor signer|Incorrect Handle/.test(message)) {
+    return new InvalidInputProofError(message, error);
+  }
+
+  if (/Failed to fetch|NetworkError|fetch failed|ECONNREFUSED/.test(message)) {
+    return new RelayerUnavailableError(undefined, error);
+  }
+
+  return error;
+}
@@ -0,0 +1,84 @@
+/**
+ * FHE Types - Universal SDK
+ * Encrypted type ids and widths shared by encryption, decryption and the mock backend
+ */
+
+import { ethers } from 'ethers';
+import type { ClearValueType, DecryptedValue } from './types.js';
+
+export type FheTypeName =
+  | 'ebool'
+  | 'euint8'
+  | 'euint16'
+  | 'euint32'
+  | 'euint64'
+  | 'euint128'
+  | 'eaddress'
+  | 'euint256';
+
+/**
+ * Type id stored in byte 30 of a ciphertext handle
+ */
+export const FHE_TYPE_IDS: Record<FheTypeName, number> = {
+  ebool: 0,
+  euint8: 2,
+  euint16: 3,
+  euint32: 4,
+  euint64: 5,
+  euint128: 6,
+  eaddress: 7,
+  euint256: 8,
+};
+
+/**
+ * Width of the cleartext in bits
+ */
+export const FHE_TYPE_BITS: Record<FheTypeName, number> = {
+  ebool: 1,
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  eaddress: 160,
+  euint256: 256,
+};
+
+/**
+ * Bits the relayer charges per input (ebool counts as 2)
+ */
+export const FHE_INPUT_BITS: Record<FheTypeName, number> = {
+  ...FHE_TYPE_BITS,
+  ebool: 2,
+};
+
+export function fheTypeFromId(id: number): FheTypeName | null {
+  const entry = Object.entries(FHE_TYPE_IDS).find(([, typeId]) => typeId === id);
+  return entry ? (entry[0] as FheTypeName) : null;
+}
+
+/**
+ * Solidity type used to ABI-encode a cleartext of this type
+ */
+export function solidityTypeOf(type: FheTypeName): string {
+  if (type === 'ebool') return 'bool';
+  if (type === 'eaddress') return 'address';
+  return `uint${FHE_TYPE_BITS[type]}`;
+}
+
+/**
+ * Convert a relayer cleartext to the JS type matching the encrypted type:
+ * `boolean` for ebool, checksummed address for eaddress, `bigint` for every euint
+ */
+export function toDecryptedValue(type: FheTypeName | null, raw: ClearValueType): DecryptedValue {
+  if (type === 'ebool') {
+    return typeof raw === 'boolean' ? raw : BigInt(raw) !== 0n;
+  }
+  if (type === 'eaddress') {
+    return ethers.getAddress(typeof raw === 'string' ? raw : ethers.toBeHex(BigInt(raw), 20));
+  }
+  if (type === null && typeof raw === 'boolean') {
+    return raw;
+  }
+  return BigInt(raw);
+}
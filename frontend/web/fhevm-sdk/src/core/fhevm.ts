@@ -5,50 +5,131 @@
  */
 
 import { ethers } from "ethers";
+import { asFhevmInstance } from './types.js';
+import { chainIdOf, getFheInstance, registerFheInstance, resolveFheInstance } from './registry.js';
+import { HARDHAT_NETWORK, resolveNetworkConfig } from './networks.js';
+import { createMockFheInstance } from './mock.js';
+import type { MockFheInstanceOptions } from './mock.js';
+import { initRelayerWasm, loadRelayerSDK } from './assets.js';
+import type { FhevmAssetOptions } from './assets.js';
+import { createNodeProvider } from './nodeProvider.js';
+import type { NodeSignerInput } from './nodeProvider.js';
+import { getDecryptionPermit } from './permits.js';
+import { checkPublicDecryptAcl, checkUserDecryptAcl } from './acl.js';
+import { toDecryptedValue } from './fheTypes.js';
+import { assertHandleChain, parseHandle } from './handles.js';
+import { assertPublicDecryptSupported, normalizePublicDecryptResult } from './compat.js';
+import { classifyError } from './errors.js';
+import { runWithPolicy, throwIfAborted } from './policy.js';
+import { sdkLogger } from './logger.js';
+import { reportTelemetry } from './telemetry.js';
+import { emitInitStage } from './lifecycle.js';
+import type { FhevmInitListener, FhevmInitStage } from './lifecycle.js';
+import type { FheTypeName } from './fheTypes.js';
+import type { FhevmNetworkConfig, FhevmNetworkInput } from './networks.js';
+import type {
+  DecryptedValue,
+  EncryptedInputResult,
+  EncryptedValue,
+  FhevmCallOptions,
+  FhevmInstance,
+  PublicDecryptResults,
+  UserDecryptResults
+} from './types.js';
+
+type RelayerSDKModule = typeof import('@zama-fhe/relayer-sdk/web');
+type RelayerSDKNodeModule = typeof import('@zama-fhe/relayer-sdk/node');
+type Hex = `0x${string}`;
+type RelayerInstanceConfig = Parameters<RelayerSDKModule['createInstance']>[0];
+
+export interface FhevmInitOptions {
+  /** Host chain RPC override for the Node.js path; in mock mode, the Hardhat node to use */
+  rpcUrl?: string;
+  /** Preset name, chain id or full network config; defaults to Sepolia (Hardhat in mock mode) */
+  network?: FhevmNetworkInput;
+  /** `relayer` loads @zama-fhe/relayer-sdk (default); `mock` needs no relayer, see mock.ts */
+  mode?: 'relayer' | 'mock';
+  /** Browser path: where the relayer SDK and its WASM files come from, see assets.ts */
+  assets?: FhevmAssetOptions;
+  /** Node.js path: account that signs (Wallet, external signer, private key or keystore) */
+  signer?: NodeSignerInput;
+  /** Called at each initialization stage of this call, see lifecycle.ts */
+  onStage?: FhevmInitListener;
+  /** Extra options for mock mode */
+  mock?: Pick<MockFheInstanceOptions, 'seed'>;
+}
+
+/**
+ * Registry key standing in for the relayer URL of a mock instance. The RPC URL and seed
+ * are part of it: an in-memory mock and a Hardhat-backed one must not be mixed up.
+ */
+function mockRelayerKey(options: FhevmInitOptions): string {
+  return `mock:${options.rpcUrl ?? ''}:${options.mock?.seed ?? ''}`;
+}
+
+/**
+ * Map a network config onto the relayer SDK's instance config
+ */
+function toRelayerConfig(network: FhevmNetworkConfig, provider: RelayerInstanceConfig['network']): RelayerInstanceConfig {
+  return {
+    aclContractAddress: network.aclContractAddress,
+    kmsContractAddress: network.kmsContractAddress,
+    inputVerifierContractAddress: network.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    relayerUrl: network.relayerUrl,
+    network: provider,
+  };
+}
+
+type StageReporter = (stage: Exclude<FhevmInitStage, 'failed'>) => void;
 
-let fheInstance: any = null;
+/**
+ * Create a relayer SDK instance; it downloads the FHE public key and CRS while doing so
+ */
+async function createRelayerInstance<T extends { getPublicKey(): unknown }>(
+  createInstance: (config: RelayerInstanceConfig) => Promise<T>,
+  config: RelayerInstanceConfig,
+  stage: StageReporter
+): Promise<T> {
+  const instance = await createInstance(config);
+  if (!instance.getPublicKey()) {
+    throw new Error('Relayer returned no FHE public key');
+  }
+  stage('public-key-fetched');
+  return instance;
+}
 
 /**
  * Initialize FHEVM instance for browser environment
  */
-async function initializeBrowserFheInstance() {
+async function initializeBrowserFheInstance(network: FhevmNetworkConfig, stage: StageReporter, assets?: FhevmAssetOptions): Promise<FhevmInstance> {
   if (typeof window === 'undefined' || !window.ethereum) {
     throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
   }
 
-  // Check for both uppercase and lowercase versions of RelayerSDK
-  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
-
-  if (!sdk) {
-    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
-  }
+  const existing = getFheInstance(network.chainId, network.relayerUrl);
+  if (existing) return existing;
 
-  const { initSDK, createInstance, SepoliaConfig } = sdk;
+  // ES module import by default; the CDN global only when asked for
+  const sdk = await loadRelayerSDK(assets);
+  const { createInstance } = sdk;
+  stage('sdk-loaded');
 
-  // Try to initialize SDK with CDN first (default behavior)
-  // If it fails (e.g., CORS error), fallback to local WASM files
-  try {
-    await initSDK(); // Try CDN first
-    console.log('✅ FHEVM SDK initialized with CDN');
-  } catch (cdnError) {
-    // If CDN fails (usually CORS), fallback to local WASM files
-    console.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
-    console.log('🔄 Trying local WASM files from public folder...');
-    await initSDK({
-      tfheParams: '/tfhe_bg.wasm',
-      kmsParams: '/kms_lib_bg.wasm'
-    });
-    console.log('✅ FHEVM SDK initialized with local WASM files');
-  }
+  await initRelayerWasm(sdk, assets);
+  stage('wasm-ready');
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+  const config = toRelayerConfig(network, window.ethereum);
 
   try {
-    fheInstance = await createInstance(config);
-    return fheInstance;
+    const instance = asFhevmInstance(await createRelayerInstance(createInstance, config, stage));
+    registerFheInstance(network.chainId, instance, network.relayerUrl, network);
+    return instance;
   } catch (err) {
-    console.error('FHEVM browser instance creation failed:', err);
-    throw err;
+    sdkLogger.error('FHEVM browser instance creation failed', err);
+    throw classifyError(err);
   }
 }
 
@@ -56,131 +137,173 @@ async function initializeBrowserFheInstance() {
  * Initialize FHEVM instance for Node.js environment
  * REAL FUNCTIONALITY - uses actual RelayerSDK
  */
-async function initializeNodeFheInstance(rpcUrl?: string) {
+async function initializeNodeFheInstance(network: FhevmNetworkConfig, stage: StageReporter, rpcUrl?: string, signer?: NodeSignerInput): Promise<FhevmInstance> {
+  const existing = getFheInstance(network.chainId, network.relayerUrl);
+  if (existing) return existing;
+
   try {
-    console.log('🚀 Initializing REAL FHEVM Node.js instance...');
+    sdkLogger.info('Initializing FHEVM Node.js instance');
     
     // Use eval to prevent webpack from analyzing these imports
-    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
+    const relayerSDKModule: RelayerSDKNodeModule = await eval('import("@zama-fhe/relayer-sdk/node")');
+    const { createInstance } = relayerSDKModule;
+    // The Node.js build compiles its WASM on import
+    stage('sdk-loaded');
+    stage('wasm-ready');
     
-    // Create an EIP-1193 compatible provider for Node.js
-    const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
-    
-    // Create EIP-1193 provider wrapper
-    const eip1193Provider = {
-      request: async ({ method, params }: { method: string; params: any[] }) => {
-        switch (method) {
-          case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
-          case 'eth_accounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_requestAccounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_call':
-            // Use the real provider for blockchain calls
-            return await provider.call(params[0]);
-          case 'eth_sendTransaction':
-            // Use the real provider for transactions
-            return await provider.broadcastTransaction(params[0]);
-          default:
-            throw new Error(`Unsupported method: ${method}`);
-        }
-      },
-      on: () => {},
-      removeListener: () => {}
-    };
-    
-    const config = { 
-      ...SepoliaConfig, 
-      network: eip1193Provider 
-    };
+    // Signer-backed EIP-1193 provider: reads go to the RPC, signing to the configured account
+    const eip1193Provider = await createNodeProvider(rpcUrl || network.rpcUrl, signer);
+
+    const rpcChainId = Number(await eip1193Provider.request({ method: 'eth_chainId' }));
+    if (rpcChainId !== network.chainId) {
+      throw new Error(`RPC ${rpcUrl || network.rpcUrl} reports chain ${rpcChainId}, expected ${network.chainId} (${network.name})`);
+    }
     
-    fheInstance = await createInstance(config);
-    console.log('✅ REAL FHEVM Node.js instance created successfully!');
-    return fheInstance;
+    const config = toRelayerConfig(network, eip1193Provider);
+
+    const instance = asFhevmInstance(await createRelayerInstance(createInstance, config, stage));
+    registerFheInstance(network.chainId, instance, network.relayerUrl, { ...network, rpcUrl: rpcUrl || network.rpcUrl });
+    sdkLogger.info('FHEVM Node.js instance created');
+    return instance;
   } catch (err) {
-    console.error('FHEVM Node.js instance creation failed:', err);
-    throw err;
+    sdkLogger.error('FHEVM Node.js instance creation failed', err);
+    throw classifyError(err);
   }
 }
 
+/**
+ * Initialize mock FHEVM instance - no relayer, no WASM
+ */
+async function initializeMockFheInstance(network: FhevmNetworkConfig, stage: StageReporter, options: FhevmInitOptions): Promise<FhevmInstance> {
+  const relayerKey = mockRelayerKey(options);
+  const existing = getFheInstance(network.chainId, relayerKey);
+  if (existing) return existing;
+
+  // Nothing to download: the stages pass as soon as the mock is built
+  const instance = await createMockFheInstance({
+    network,
+    rpcUrl: options.rpcUrl,
+    seed: options.mock?.seed,
+  });
+  stage('sdk-loaded');
+  stage('wasm-ready');
+  stage('public-key-fetched');
+  registerFheInstance(network.chainId, instance, relayerKey, { ...network, rpcUrl: options.rpcUrl ?? network.rpcUrl });
+  sdkLogger.info(`Mock FHEVM instance created for chain ${network.chainId}`);
+  return instance;
+}
+
 /**
  * Initialize FHEVM instance - Environment-aware
  * MAINTAINS BACKWARD COMPATIBILITY
+ * Instances are cached per (chainId, relayer URL); see registry.ts
  */
-export async function initializeFheInstance(options?: { rpcUrl?: string }) {
-  // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
-    // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
-  } else {
-    // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
+export async function initializeFheInstance(options?: FhevmInitOptions): Promise<FhevmInstance> {
+  // Detect environment; mock mode defaults to the local Hardhat network
+  const mode = options?.mode === 'mock'
+    ? 'mock'
+    : typeof window !== 'undefined' && window.ethereum ? 'browser' : 'node';
+  const network = resolveNetworkConfig(options?.network ?? (mode === 'mock' ? HARDHAT_NETWORK : undefined));
+  const startedAt = Date.now();
+  const emit = (stage: FhevmInitStage, error?: unknown) => emitInitStage(
+    { stage, mode, chainId: network.chainId, elapsedMs: Date.now() - startedAt, error },
+    options?.onStage
+  );
+
+  try {
+    let instance: FhevmInstance;
+    if (mode === 'mock') {
+      instance = await initializeMockFheInstance(network, emit, options ?? {});
+    } else if (mode === 'browser') {
+      // Browser environment - use existing working code
+      instance = await initializeBrowserFheInstance(network, emit, options?.assets);
+    } else {
+      // Node.js environment - use new functionality
+      instance = await initializeNodeFheInstance(network, emit, options?.rpcUrl, options?.signer);
+    }
+    // Also emitted for a cached instance, so listeners always see the run complete
+    emit('instance-created');
+    reportTelemetry('onInit', { mode, chainId: network.chainId, durationMs: Date.now() - startedAt, success: true });
+    return instance;
+  } catch (error) {
+    emit('failed', error);
+    reportTelemetry('onInit', { mode, chainId: network.chainId, durationMs: Date.now() - startedAt, success: false, error });
+    throw error;
   }
 }
 
-export function getFheInstance() {
-  return fheInstance;
+/**
+ * Run EIP-712 user decryption with a stored permit (one signature per permit lifetime)
+ */
+async function userDecryptWithPermit(
+  fhe: FhevmInstance,
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer,
+  options?: FhevmCallOptions
+): Promise<UserDecryptResults> {
+  // Reject handles from another network before asking the wallet to sign
+  const chainId = chainIdOf(fhe);
+  handles.forEach(handle => assertHandleChain(handle, chainId));
+  throwIfAborted(options?.signal);
+
+  // A user without ACL access would otherwise only find out after signing
+  await checkUserDecryptAcl(fhe, handles, contractAddress, signer, options);
+  throwIfAborted(options?.signal);
+
+  const handleContractPairs = handles.map(handle => ({
+    handle,
+    contractAddress: contractAddress,
+  }));
+
+  const permit = await getDecryptionPermit(fhe, signer, [contractAddress]);
+
+  // Only the relayer round trip is retried; the permit signature is reused
+  return runWithPolicy('userDecrypt', () => fhe.userDecrypt(
+    handleContractPairs,
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    permit.contractAddresses,
+    permit.userAddress,
+    permit.startTimeStamp,
+    permit.durationDays
+  ), options);
+}
+
+/**
+ * Pick a handle's cleartext out of a relayer result and type it by the handle's encrypted type
+ */
+function decryptedValueOf(result: UserDecryptResults, handle: string): DecryptedValue {
+  const raw = result[handle as Hex] ?? result[handle.toLowerCase() as Hex];
+  if (raw === undefined) {
+    throw new Error(`Relayer returned no value for handle ${handle}`);
+  }
+  return toDecryptedValue(parseHandle(handle).type, raw);
 }
 
 /**
  * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+ * Returns `bigint` for euint*, `boolean` for ebool and a checksummed address for eaddress
  */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export async function decryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer: ethers.Signer,
+  options?: FhevmCallOptions
+): Promise<DecryptedValue> {
+  const fhe = resolveFheInstance(options?.instance);
 
   try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
+    sdkLogger.debug('EIP-712 user decryption', encryptedBytes);
     
     // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = [
-      {
-        handle: encryptedBytes,
-        contractAddress: contractAddress,
-      },
-    ];
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
+    const result = await userDecryptWithPermit(fhe, [encryptedBytes], contractAddress, signer, options);
+
+    return decryptedValueOf(result, encryptedBytes);
+  } catch (error) {
+    // Relayer, wallet and ACL failures surface as typed FhevmErrors
+    throw classifyError(error);
   }
 }
 
@@ -190,65 +313,77 @@ export async function decryptValue(encryptedBytes: string, contractAddress: stri
 export async function batchDecryptValues(
   handles: string[], 
   contractAddress: string, 
-  signer: any
-): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+  signer: ethers.Signer,
+  options?: FhevmCallOptions
+): Promise<Record<string, DecryptedValue>> {
+  const fhe = resolveFheInstance(options?.instance);
 
   try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
+    sdkLogger.debug('EIP-712 batch user decryption', handles);
     
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
+    const result = await userDecryptWithPermit(fhe, handles, contractAddress, signer, options);
+
+    // Convert each result to the JS type of its encrypted type
+    const decryptedValues: Record<string, DecryptedValue> = {};
     for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
+      decryptedValues[handle] = decryptedValueOf(result, handle);
     }
 
     return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
+  } catch (error) {
+    throw classifyError(error);
   }
 }
 
+/**
+ * Decrypt a handle after checking its encrypted type, so callers get the exact JS type
+ */
+async function decryptAs<T extends DecryptedValue>(
+  expected: FheTypeName,
+  handle: string,
+  contractAddress: string,
+  signer: ethers.Signer,
+  options?: FhevmCallOptions
+): Promise<T> {
+  const { type } = parseHandle(handle);
+  if (type !== expected) {
+    throw new Error(`Handle ${handle} is ${type}, expected ${expected}`);
+  }
+  return (await decryptValue(handle, contractAddress, signer, options)) as T;
+}
+
+export async function decryptBool(handle: string, contractAddress: string, signer: ethers.Signer, options?: FhevmCallOptions): Promise<boolean> {
+  return decryptAs<boolean>('ebool', handle, contractAddress, signer, options);
+}
+
+export async function decryptUint8(handle: string, contractAddress: string, signer: ethers.Signer, options?: FhevmCallOptions): Promise<bigint> {
+  return decryptAs<bigint>('euint8', handle, contractAddress, signer, options);
+}
+
+export async function decryptUint16(handle: string, contractAddress: string, signer: ethers.Signer, options?: FhevmCallOptions): Promise<bigint> {
+  return decryptAs<bigint>('euint16', handle, contractAddress, signer, options);
+}
+
+export async function decryptUint32(handle: string, contractAddress: string, signer: ethers.Signer, options?: FhevmCallOptions): Promise<bigint> {
+  return decryptAs<bigint>('euint32', handle, contractAddress, signer, options);
+}
+
+export async function decryptUint64(handle: string, contractAddress: string, signer: ethers.Signer, options?: FhevmCallOptions): Promise<bigint> {
+  return decryptAs<bigint>('euint64', handle, contractAddress, signer, options);
+}
+
+export async function decryptUint128(handle: string, contractAddress: string, signer: ethers.Signer, options?: FhevmCallOptions): Promise<bigint> {
+  return decryptAs<bigint>('euint128', handle, contractAddress, signer, options);
+}
+
+export async function decryptUint256(handle: string, contractAddress: string, signer: ethers.Signer, options?: FhevmCallOptions): Promise<bigint> {
+  return decryptAs<bigint>('euint256', handle, contractAddress, signer, options);
+}
+
+export async function decryptAddress(handle: string, contractAddress: string, signer: ethers.Signer, options?: FhevmCallOptions): Promise<string> {
+  return decryptAs<string>('eaddress', handle, contractAddress, signer, options);
+}
+
 /**
  * Encrypt values using FHEVM
  * 
@@ -267,131 +402,77 @@ export async function batchDecryptValues(
 export async function encryptValue(
   contractAddress: string,
   address: string,
-  plainDigits: number[]
-) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
-
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
+  plainDigits: number[],
+  options?: FhevmCallOptions
+): Promise<EncryptedInputResult> {
+  try {
+    const relayer = resolveFheInstance(options?.instance);
+
+    const inputHandle = relayer.createEncryptedInput(contractAddress, address);
+    for (const d of plainDigits) {
+      inputHandle.add8(d);
+    }
+
+    return await runWithPolicy('encrypt', () => inputHandle.encrypt(), options);
+  } catch (error) {
+    throw classifyError(error);
   }
-  
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
 }
 
 /**
  * Create encrypted input for contract interaction (matches showcase API)
  */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export async function createEncryptedInput(
+  contractAddress: string,
+  userAddress: string,
+  value: number,
+  options?: FhevmCallOptions
+): Promise<EncryptedValue> {
+  let result: EncryptedInputResult;
+  try {
+    const fhe = resolveFheInstance(options?.instance);
 
-  console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-  
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
+    // The cleartext value is never logged
+    sdkLogger.debug(`Creating encrypted input for contract ${contractAddress}, user ${userAddress}`);
+
+    const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
+    inputHandle.add32(value);
+
+    result = await runWithPolicy('encrypt', () => inputHandle.encrypt(), options);
+  } catch (error) {
+    throw classifyError(error);
+  }
   
-  console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
+  sdkLogger.debug('Encrypted input created', result);
   
   // The FHEVM SDK returns an object with handles and inputProof
   // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
-    }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
-    }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
-    }
+  if (!result.handles || result.handles.length === 0) {
+    throw new Error('Encrypted input returned no handles');
   }
-  
-  // If result is not an object, use it directly
+
   return {
-    encryptedData: result,
-    proof: result
+    encryptedData: result.handles[0],
+    proof: result.inputProof
   };
 }
 
-export async function publicDecryptV09(handles: string[]): Promise<{
-  clearValues: { [handle: string]: bigint };
-  abiEncodedClearValues: string;
-  decryptionProof: string;
-}> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+export async function publicDecryptV09(handles: string[], options?: FhevmCallOptions): Promise<PublicDecryptResults> {
+  const fhe = resolveFheInstance(options?.instance);
 
   try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
+    sdkLogger.debug('v0.9 public decryption', handles);
+
+    // Reject malformed handles and handles from another network before any relayer round trip
+    const chainId = chainIdOf(fhe);
+    handles.forEach(handle => assertHandleChain(handle, chainId));
     
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
-      
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
-      } else {
-        throw new Error('Invalid publicDecrypt result structure');
-      }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
-      
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
-      
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
-        }
-      }
-
-      if (handles.length === 1) {
-
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'], 
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
-
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'), 
-          values
-        );
-      }
-      
-      return {
-        clearValues,
-        abiEncodedClearValues,
-        decryptionProof
-      };
-    }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
+    assertPublicDecryptSupported(fhe);
+    await checkPublicDecryptAcl(fhe, handles, options);
+    const result = await runWithPolicy('publicDecrypt', () => fhe.publicDecrypt(handles), options);
+    return normalizePublicDecryptResult(handles, result);
+  } catch (error) {
+    throw classifyError(error);
   }
 }
 
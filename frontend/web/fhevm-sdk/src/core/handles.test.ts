@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { abiEncodeClearValues, assertHandleChain, fheTypeOfHandle, isHandle, parseHandle } from './handles.js';
+import { FHE_TYPE_IDS } from './fheTypes.js';
+import type { FheTypeName } from './fheTypes.js';
+
+function handle(type: FheTypeName, { index = 0, chainId = 11155111 } = {}): string {
+  return ethers.hexlify(ethers.concat([
+    new Uint8Array(21).fill(0xab),
+    ethers.toBeHex(index, 1),
+    ethers.toBeHex(chainId, 8),
+    ethers.toBeHex(FHE_TYPE_IDS[type], 1),
+    '0x00',
+  ]));
+}
+
+describe('parseHandle', () => {
+  it('decodes index, chain and type', () => {
+    expect(parseHandle(handle('euint64', { index: 3, chainId: 31337 }))).toMatchObject({
+      hash21: `0x${'ab'.repeat(21)}`,
+      index: 3,
+      isComputed: false,
+      chainId: 31337,
+      type: 'euint64',
+      version: 0,
+    });
+  });
+
+  it('marks handles computed on-chain', () => {
+    expect(parseHandle(handle('ebool', { index: 0xff }))).toMatchObject({ index: null, isComputed: true });
+  });
+
+  it('accepts bytes and lowercases the hex form', () => {
+    const hex = handle('eaddress').toUpperCase().replace('0X', '0x');
+    expect(parseHandle(ethers.getBytes(hex)).handle).toBe(hex.toLowerCase());
+  });
+
+  it('rejects values that are not 32-byte handles', () => {
+    expect(() => parseHandle('0x1234')).toThrow('Invalid ciphertext handle');
+    expect(() => parseHandle(new Uint8Array(31))).toThrow('Invalid ciphertext handle length: 31 bytes');
+    expect(isHandle(42)).toBe(false);
+  });
+
+  it('rejects unknown type ids', () => {
+    const bytes = ethers.getBytes(handle('euint8'));
+    bytes[30] = 0xee;
+    expect(() => parseHandle(bytes)).toThrow('Unknown encrypted type id 238');
+    expect(fheTypeOfHandle(bytes)).toBeNull();
+  });
+});
+
+describe('assertHandleChain', () => {
+  it('returns the parsed handle on the expected chain', () => {
+    expect(assertHandleChain(handle('euint32', { chainId: 1 }), 1).type).toBe('euint32');
+  });
+
+  it('throws for a handle from another chain', () => {
+    const other = handle('euint32', { chainId: 31337 });
+    expect(() => assertHandleChain(other, 11155111)).toThrow(`belongs to chain 31337, expected chain 11155111`);
+  });
+});
+
+describe('abiEncodeClearValues', () => {
+  it('encodes in handle order with each handle\'s Solidity type', () => {
+    const a = handle('euint8', { index: 0 });
+    const b = handle('ebool', { index: 1 });
+    const encoded = abiEncodeClearValues([b, a], { [a]: 5n, [b]: true });
+    expect(ethers.AbiCoder.defaultAbiCoder().decode(['bool', 'uint8'], encoded)).toEqual([true, 5n]);
+  });
+
+  it('throws when a cleartext is missing', () => {
+    const a = handle('euint8');
+    expect(() => abiEncodeClearValues([a], {})).toThrow(`Missing cleartext for handle ${a}`);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * FHEVM Handle Introspection - Universal SDK
+ *
+ * Ciphertext handles are 32 bytes:
+ * hash[0..20] | index[21] | chainId[22..29] | type[30] | version[31]
+ * Handles computed on-chain (not from a user input) carry index 0xff.
+ */
+
+import { ethers } from 'ethers';
+import { fheTypeFromId, solidityTypeOf } from './fheTypes.js';
+import type { FheTypeName } from './fheTypes.js';
+import type { ClearValueType } from './types.js';
+
+type Hex = `0x${string}`;
+
+const COMPUTED_INDEX = 0xff;
+
+export interface ParsedHandle {
+  /** Lowercase 0x-prefixed bytes32 */
+  handle: Hex;
+  /** First 21 bytes, derived from the ciphertext hash */
+  hash21: Hex;
+  /** Position in the encrypted input, or null for computed handles */
+  index: number | null;
+  /** True when the handle is the result of an on-chain FHE operation */
+  isComputed: boolean;
+  chainId: number;
+  type: FheTypeName;
+  typeId: number;
+  version: number;
+}
+
+/**
+ * Decode a handle. Throws if it is not 32 bytes or has an unknown type.
+ */
+export function parseHandle(handle: string | Uint8Array): ParsedHandle {
+  if (typeof handle === 'string' && !ethers.isHexString(handle, 32)) {
+    throw new Error(`Invalid ciphertext handle: ${handle}`);
+  }
+  const bytes = ethers.getBytes(handle);
+  if (bytes.length !== 32) {
+    throw new Error(`Invalid ciphertext handle length: ${bytes.length} bytes`);
+  }
+
+  const typeId = bytes[30];
+  const type = fheTypeFromId(typeId);
+  if (!type) {
+    throw new Error(`Unknown encrypted type id ${typeId} in handle ${ethers.hexlify(bytes)}`);
+  }
+
+  const index = bytes[21];
+  return {
+    handle: ethers.hexlify(bytes) as Hex,
+    hash21: ethers.hexlify(bytes.slice(0, 21)) as Hex,
+    index: index === COMPUTED_INDEX ? null : index,
+    isComputed: index === COMPUTED_INDEX,
+    chainId: Number(ethers.toBigInt(bytes.slice(22, 30))),
+    type,
+    typeId,
+    version: bytes[31],
+  };
+}
+
+export function isHandle(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    parseHandle(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encrypted type of a handle, or null if it cannot be parsed
+ */
+export function fheTypeOfHandle(handle: string | Uint8Array): FheTypeName | null {
+  try {
+    return parseHandle(handle).type;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a handle and check it was created on the expected chain
+ */
+export function assertHandleChain(handle: string | Uint8Array, expectedChainId: number): ParsedHandle {
+  const parsed = parseHandle(handle);
+  if (parsed.chainId !== expectedChainId) {
+    throw new Error(`Handle ${parsed.handle} belongs to chain ${parsed.chainId}, expected chain ${expectedChainId}`);
+  }
+  return parsed;
+}
+
+/**
+ * ABI-encode cleartexts in handle order, each with the Solidity type of its handle
+ */
+export function abiEncodeClearValues(
+  handles: string[],
+  clearValues: Record<string, ClearValueType>
+): Hex {
+  const types: string[] = [];
+  const values: ClearValueType[] = [];
+  for (const handle of handles) {
+    const { handle: key, type } = parseHandle(handle);
+    const value = clearValues[handle] ?? clearValues[key];
+    if (value === undefined) {
+      throw new Error(`Missing cleartext for handle ${handle}`);
+    }
+    types.push(solidityTypeOf(type));
+    values.push(value);
+  }
+  return ethers.AbiCoder.defaultAbiCoder().encode(types, values) as Hex;
+}
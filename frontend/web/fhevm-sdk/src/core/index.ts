@@ -5,6 +5,27 @@
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
+export * from './registry.js';
+export * from './errors.js';
+export * from './policy.js';
+export * from './logger.js';
+export * from './telemetry.js';
+export * from './networks.js';
+export * from './fheTypes.js';
+export * from './handles.js';
+export * from './compat.js';
+export * from './mock.js';
+export * from './nodeProvider.js';
+export * from './assets.js';
+export * from './lifecycle.js';
+export * from './acl.js';
+export * from './permits.js';
+export * from './encryption.js';
 export * from './contracts.js';
+export * from './proofs.js';
+export * from './verification.js';
+export * from './simulation.js';
+export * from './transactions.js';
+export * from './types.js';
 
 
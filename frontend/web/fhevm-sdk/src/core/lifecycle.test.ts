@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { FHEVM_INIT_STAGES, emitInitStage, onInitStage } from './lifecycle.js';
+import type { FhevmInitEvent } from './lifecycle.js';
+import { initializeFheInstance } from './fhevm.js';
+import { disposeAllFheInstances } from './registry.js';
+
+describe('initialization stages', () => {
+  afterEach(() => disposeAllFheInstances());
+
+  it('reports every stage in order with growing elapsed time, to subscribers and the call listener', async () => {
+    const global: FhevmInitEvent[] = [];
+    const local: FhevmInitEvent[] = [];
+    const unsubscribe = onInitStage(event => global.push(event));
+
+    await initializeFheInstance({ mode: 'mock', mock: { seed: 'stages' }, onStage: event => local.push(event) });
+    unsubscribe();
+
+    expect(local.map(({ stage }) => stage)).toEqual(FHEVM_INIT_STAGES);
+    expect(global).toEqual(local);
+    expect(local.every(({ mode, chainId }) => mode === 'mock' && chainId === 31337)).toBe(true);
+    const elapsed = local.map(({ elapsedMs }) => elapsedMs);
+    expect(elapsed).toEqual([...elapsed].sort((a, b) => a - b));
+    expect(elapsed[0]).toBeGreaterThanOrEqual(0);
+  });
+
+  it('still completes the run for a cached instance', async () => {
+    await initializeFheInstance({ mode: 'mock', mock: { seed: 'cached' } });
+
+    const stages: string[] = [];
+    await initializeFheInstance({ mode: 'mock', mock: { seed: 'cached' }, onStage: ({ stage }) => stages.push(stage) });
+    expect(stages).toEqual(['instance-created']);
+  });
+
+  it('ends a failed run with the error', async () => {
+    const events: FhevmInitEvent[] = [];
+
+    // The Hardhat-backed mock needs @fhevm/mock-utils and a node, neither of which is here
+    await expect(initializeFheInstance({ mode: 'mock', rpcUrl: 'http://127.0.0.1:1', onStage: event => events.push(event) }))
+      .rejects.toBeDefined();
+    expect(events.map(({ stage }) => stage)).toEqual(['failed']);
+    expect(events[0].error).toBeDefined();
+  });
+
+  it('keeps delivering when a listener throws', () => {
+    const received: string[] = [];
+    const unsubscribe = onInitStage(() => {
+      throw new Error('listener bug');
+    });
+
+    emitInitStage({ stage: 'sdk-loaded', mode: 'mock', chainId: 31337, elapsedMs: 0 }, ({ stage }) => received.push(stage));
+    unsubscribe();
+    expect(received).toEqual(['sdk-loaded']);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * FHEVM Initialization Lifecycle - Universal SDK
+ * Stage events emitted while an instance is being created, for progress UIs
+ */
+
+import { sdkLogger } from './logger.js';
+
+/**
+ * Stages in order: the relayer SDK module is loaded, its WASM is compiled,
+ * the FHE public key is available, the instance is registered. `failed` ends a run early.
+ */
+export type FhevmInitStage = 'sdk-loaded' | 'wasm-ready' | 'public-key-fetched' | 'instance-created' | 'failed';
+
+export const FHEVM_INIT_STAGES: FhevmInitStage[] = ['sdk-loaded', 'wasm-ready', 'public-key-fetched', 'instance-created'];
+
+export interface FhevmInitEvent {
+  stage: FhevmInitStage;
+  mode: 'browser' | 'node' | 'mock';
+  chainId: number;
+  /** Time since initializeFheInstance() was called */
+  elapsedMs: number;
+  /** Set when `stage` is `failed` */
+  error?: unknown;
+}
+
+export type FhevmInitListener = (event: FhevmInitEvent) => void;
+
+const listeners = new Set<FhevmInitListener>();
+
+/**
+ * Subscribe to initialization stages of every instance; returns an unsubscribe function
+ */
+export function onInitStage(listener: FhevmInitListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Deliver an event to the subscribers and the per-call listener.
+ * A throwing listener is logged and never breaks initialization.
+ */
+export function emitInitStage(event: FhevmInitEvent, callListener?: FhevmInitListener): void {
+  sdkLogger.debug(`FHEVM init stage ${event.stage} after ${event.elapsedMs} ms`);
+  for (const listener of [...listeners, ...(callListener ? [callListener] : [])]) {
+    try {
+      listener(event);
+    } catch (error) {
+      sdkLogger.warn('Init stage listener threw', error);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { configureLogging, redact, sdkLogger } from './logger.js';
+import type { FhevmLogger } from './logger.js';
+
+const LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+function recorder(): FhevmLogger & { lines: unknown[][] } {
+  const lines: unknown[][] = [];
+  const record = (message: string, ...args: unknown[]) => lines.push([message, ...args]);
+  return { lines, debug: record, info: record, warn: record, error: record };
+}
+
+describe('sdkLogger', () => {
+  afterEach(() => configureLogging({ logger: console, level: 'info', redact: true }));
+
+  it('masks private keys, EIP-712 signatures and input proofs at every level', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const signature = await wallet.signTypedData(
+      { name: 'Decryption', version: '1', chainId: 1 },
+      { Permit: [{ name: 'nonce', type: 'uint256' }] },
+      { nonce: 1 }
+    );
+    const inputProof = ethers.hexlify(ethers.randomBytes(100));
+    const secrets = [wallet.privateKey, signature, inputProof];
+
+    const sink = recorder();
+    configureLogging({ logger: sink, level: 'debug' });
+    for (const level of LEVELS) {
+      sdkLogger[level](`${level} ${wallet.privateKey}`, { privateKey: wallet.privateKey, signature }, [inputProof]);
+    }
+
+    expect(sink.lines).toHaveLength(LEVELS.length);
+    const written = JSON.stringify(sink.lines);
+    for (const secret of secrets) {
+      expect(written).not.toContain(secret.slice(2));
+    }
+    expect(sink.lines[0][0]).toBe(`debug 0x${wallet.privateKey.slice(2, 8)}…${wallet.privateKey.slice(-4)} (32 bytes)`);
+  });
+
+  it('keeps addresses readable and shortens bytes and hex keys', () => {
+    const handle = ethers.hexlify(ethers.randomBytes(32));
+    const address = ethers.Wallet.createRandom().address;
+
+    expect(redact({ address, [handle]: 1n, bytes: new Uint8Array(65) })).toEqual({
+      address,
+      [`0x${handle.slice(2, 8)}…${handle.slice(-4)} (32 bytes)`]: 1n,
+      bytes: '<65 bytes>',
+    });
+  });
+
+  it('writes nothing below the configured level and everything raw without redaction', () => {
+    const sink = recorder();
+    const key = ethers.Wallet.createRandom().privateKey;
+
+    configureLogging({ logger: sink, level: 'warn' });
+    sdkLogger.info('hidden');
+    configureLogging({ redact: false });
+    sdkLogger.warn('raw', key);
+
+    expect(sink.lines).toEqual([['raw', key]]);
+  });
+
+  it('can be silenced', () => {
+    const sink = recorder();
+    const error = vi.fn();
+    configureLogging({ logger: { ...sink, error }, level: 'silent' });
+    sdkLogger.error('quiet');
+    expect(error).not.toHaveBeenCalled();
+  });
+});
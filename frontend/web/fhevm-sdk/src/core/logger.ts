@@ -0,0 +1,102 @@
+/**
+ * FHEVM Logger - Universal SDK
+ * Injectable, leveled logger. Handles, proofs, signatures and keys are redacted
+ * before they reach the sink unless redaction is turned off.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface FhevmLogger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+export interface LoggingOptions {
+  /** Sink for SDK messages; defaults to the console */
+  logger?: FhevmLogger;
+  /** Minimum level written to the sink; defaults to 'info' */
+  level?: LogLevel;
+  /** Shorten handles, proofs, signatures and keys; defaults to true */
+  redact?: boolean;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const consoleLogger: FhevmLogger = {
+  debug: (message, ...args) => console.debug(message, ...args),
+  info: (message, ...args) => console.log(message, ...args),
+  warn: (message, ...args) => console.warn(message, ...args),
+  error: (message, ...args) => console.error(message, ...args),
+};
+
+let sink: FhevmLogger = consoleLogger;
+let minLevel: LogLevel = 'info';
+let redactEnabled = true;
+
+/**
+ * Replace the logger, change the level or toggle redaction
+ */
+export function configureLogging(options: LoggingOptions): void {
+  if (options.logger) sink = options.logger;
+  if (options.level) minLevel = options.level;
+  if (options.redact !== undefined) redactEnabled = options.redact;
+}
+
+// 20 bytes of hex (an address) and shorter stay readable; bytes32 handles and longer are shortened
+const LONG_HEX = /^(0x)?[0-9a-fA-F]{64,}$/;
+
+function shorten(hex: string): string {
+  const body = hex.startsWith('0x') ? hex.slice(2) : hex;
+  return `0x${body.slice(0, 6)}…${body.slice(-4)} (${body.length / 2} bytes)`;
+}
+
+/**
+ * Replace handles, proofs, signatures and keys inside a log argument with short previews
+ */
+export function redact(value: unknown, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    return LONG_HEX.test(value) ? shorten(value) : value;
+  }
+  if (value instanceof Uint8Array) {
+    return `<${value.length} bytes>`;
+  }
+  if (value instanceof Error || value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, seen));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [LONG_HEX.test(key) ? shorten(key) : key, redact(item, seen)])
+  );
+}
+
+function emit(level: Exclude<LogLevel, 'silent'>, message: string, args: unknown[]): void {
+  if (LEVELS[level] < LEVELS[minLevel]) return;
+  if (!redactEnabled) {
+    sink[level](message, ...args);
+    return;
+  }
+  sink[level](message.replace(/0x[0-9a-fA-F]{64,}/g, shorten), ...args.map(arg => redact(arg)));
+}
+
+/**
+ * Logger used throughout the SDK; applies the configured level and redaction
+ */
+export const sdkLogger: FhevmLogger = {
+  debug: (message, ...args) => emit('debug', message, args),
+  info: (message, ...args) => emit('info', message, args),
+  warn: (message, ...args) => emit('warn', message, args),
+  error: (message, ...args) => emit('error', message, args),
+};
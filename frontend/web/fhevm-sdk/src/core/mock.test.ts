@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { createMockFheInstance, MockFheInstance } from './mock.js';
+import { encryptInputs } from './encryption.js';
+import { batchDecryptValues, decryptValue, initializeFheInstance } from './fhevm.js';
+import { parseHandle } from './handles.js';
+import { parseInputProof } from './proofs.js';
+import { HARDHAT_NETWORK } from './networks.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+
+describe('MockFheInstance', () => {
+  it('decrypts what it encrypted, typed by each handle', async () => {
+    const mock = await createMockFheInstance({ seed: 'round-trip' });
+    const user = ethers.Wallet.createRandom();
+
+    const { handles } = await encryptInputs(CONTRACT, user.address, { instance: mock })
+      .bool(true)
+      .u32(42)
+      .u256(2n ** 200n)
+      .address(OTHER)
+      .encrypt();
+
+    const values = await batchDecryptValues(handles.map(({ handle }) => handle), CONTRACT, user, { instance: mock });
+    expect(Object.values(values)).toEqual([true, 42n, 2n ** 200n, ethers.getAddress(OTHER)]);
+  });
+
+  it('public-decrypts with an ABI encoding that matches the cleartexts', async () => {
+    const mock = await createMockFheInstance();
+    const { handles } = await encryptInputs(CONTRACT, OTHER, { instance: mock }).u8(7).bool(false).encrypt();
+
+    const result = await mock.publicDecrypt(handles.map(({ handle }) => handle));
+    expect(Object.values(result.clearValues)).toEqual([7n, false]);
+    expect(ethers.AbiCoder.defaultAbiCoder().decode(['uint8', 'bool'], result.abiEncodedClearValues)).toEqual([7n, false]);
+  });
+
+  it('binds handles to the chain and is deterministic per seed', async () => {
+    const encrypt = async (seed: string) => {
+      const mock = new MockFheInstance(HARDHAT_NETWORK, seed);
+      const input = mock.createEncryptedInput(CONTRACT, OTHER);
+      input.add64(123n);
+      return ethers.hexlify((await input.encrypt()).handles[0]);
+    };
+
+    const handle = await encrypt('a');
+    expect(await encrypt('a')).toBe(handle);
+    expect(await encrypt('b')).not.toBe(handle);
+    expect(parseHandle(handle)).toMatchObject({ chainId: HARDHAT_NETWORK.chainId, type: 'euint64', index: 0 });
+  });
+
+  it('emits input proofs without coprocessor signatures', async () => {
+    const mock = await createMockFheInstance();
+    const { handles, inputProof } = await encryptInputs(CONTRACT, OTHER, { instance: mock }).u16(1).u16(2).encrypt();
+
+    const proof = parseInputProof(inputProof);
+    expect(proof.handles).toEqual(handles.map(({ handle }) => handle));
+    expect(proof.signatures).toEqual([]);
+  });
+
+  it('rejects user decryption for a contract outside the signed request', async () => {
+    const mock = await createMockFheInstance();
+    const user = ethers.Wallet.createRandom();
+    const { handles } = await encryptInputs(CONTRACT, user.address, { instance: mock }).u32(1).encrypt();
+
+    await expect(decryptValue(handles[0].handle, CONTRACT, user, { instance: mock })).resolves.toBe(1n);
+
+    const { publicKey, privateKey } = mock.generateKeypair();
+    const start = Math.floor(Date.now() / 1000);
+    const eip712 = mock.createEIP712(publicKey, [CONTRACT], start, 1);
+    const signature = await user.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message
+    );
+    await expect(mock.userDecrypt(
+      [{ handle: handles[0].handle, contractAddress: OTHER }],
+      privateKey, publicKey, signature, [CONTRACT], user.address, start, 1
+    )).rejects.toThrow(`Contract ${OTHER} is not part of the signed request`);
+  });
+
+  it('caches mock instances per rpc url and seed', async () => {
+    const first = await initializeFheInstance({ mode: 'mock', mock: { seed: 'one' } });
+    expect(await initializeFheInstance({ mode: 'mock', mock: { seed: 'one' } })).toBe(first);
+    expect(await initializeFheInstance({ mode: 'mock', mock: { seed: 'two' } })).not.toBe(first);
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * FHEVM Mock Backend - Universal SDK
+ * Relayer-free FhevmInstance for Node.js scripts, unit tests and CI
+ *
+ * Two backends share the same FhevmInstance interface:
+ * - in memory (default): deterministic handles and input proofs, cleartexts kept in a local map.
+ *   Off-chain only: its input proofs carry no coprocessor signatures (numSigners = 0), so a
+ *   deployed InputVerifier rejects them. Use it for code that never sends a transaction.
+ * - Hardhat (when `rpcUrl` is set): `@fhevm/mock-utils` against the node's mock coprocessor,
+ *   so input proofs verify on-chain and values computed by contracts can be decrypted
+ */
+
+import { ethers } from 'ethers';
+import { FHE_INPUT_BITS, FHE_TYPE_BITS, FHE_TYPE_IDS, solidityTypeOf } from './fheTypes.js';
+import type { FheTypeName } from './fheTypes.js';
+import { HARDHAT_NETWORK, resolveNetworkConfig } from './networks.js';
+import type { FhevmNetworkConfig, FhevmNetworkInput } from './networks.js';
+import type {
+  ClearValueType,
+  ClearValues,
+  EIP712,
+  EncryptedInputResult,
+  FhevmEncryptedInput,
+  FhevmInstance,
+  FhevmKeypair,
+  HandleContractPair,
+  PublicDecryptResults,
+  UserDecryptResults
+} from './types.js';
+
+type Hex = `0x${string}`;
+
+export interface MockFheInstanceOptions {
+  /** Network the mock stands in for; defaults to the local Hardhat preset */
+  network?: FhevmNetworkInput;
+  /** Hardhat node running `@fhevm/hardhat-plugin`; omit to keep everything in memory */
+  rpcUrl?: string;
+  /** Mixed into in-memory handles and keys so separate suites do not collide */
+  seed?: string;
+}
+
+interface MockRecord {
+  type: FheTypeName;
+  value: ClearValueType;
+  contractAddress: string;
+  userAddress: string;
+}
+
+// Minimal surface of `@fhevm/mock-utils` used here; the package is an optional peer dependency
+interface MockUtilsModule {
+  MockFhevmInstance: {
+    create(
+      relayerProvider: ethers.JsonRpcProvider,
+      readonlyEthersProvider: ethers.Provider,
+      config: Omit<FhevmNetworkConfig, 'name' | 'rpcUrl' | 'relayerUrl'>,
+      properties: { inputVerifierProperties: object; kmsVerifierProperties: object }
+    ): Promise<FhevmInstance>;
+  };
+}
+
+const HANDLE_VERSION = 0;
+const EXTRA_DATA: Hex = '0x00';
+
+/**
+ * Normalize a cleartext the same way the relayer input builder does
+ */
+function toClearValue(type: FheTypeName, value: boolean | number | bigint | string): ClearValueType {
+  if (type === 'ebool') {
+    if (typeof value === 'string') throw new Error(`Invalid ebool value: ${value}`);
+    const asBigInt = BigInt(value);
+    if (asBigInt !== 0n && asBigInt !== 1n) throw new Error(`Invalid ebool value: ${value}`);
+    return asBigInt === 1n;
+  }
+  if (type === 'eaddress') {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) throw new Error(`Invalid address value: ${value}`);
+    return ethers.getAddress(value) as Hex;
+  }
+
+  if (typeof value === 'string' || typeof value === 'boolean') throw new Error(`Invalid ${type} value: ${value}`);
+  const asBigInt = BigInt(value);
+  const max = (1n << BigInt(FHE_TYPE_BITS[type])) - 1n;
+  if (asBigInt < 0n || asBigInt > max) {
+    throw new Error(`Value ${value} does not fit in ${type}`);
+  }
+  return asBigInt;
+}
+
+/**
+ * Build a handle with the FHEVM layout:
+ * hash[0..20] | index[21] | chainId[22..29] | type[30] | version[31]
+ */
+function computeInputHandle(blobHash: string, index: number, chainId: number, type: FheTypeName): Hex {
+  const hash21 = ethers.getBytes(ethers.keccak256(ethers.concat([blobHash, ethers.toBeHex(index, 1)]))).slice(0, 21);
+  return ethers.hexlify(
+    ethers.concat([
+      hash21,
+      ethers.toBeHex(index, 1),
+      ethers.toBeHex(chainId, 8),
+      ethers.toBeHex(FHE_TYPE_IDS[type], 1),
+      ethers.toBeHex(HANDLE_VERSION, 1),
+    ])
+  ) as Hex;
+}
+
+/**
+ * Input proof with the FHEVM layout and no coprocessor signatures:
+ * numHandles[1] | numSigners[1] | handles[32 * n] | extraData
+ */
+function computeInputProof(handles: Hex[]): Uint8Array {
+  return ethers.getBytes(
+    ethers.concat([ethers.toBeHex(handles.length, 1), ethers.toBeHex(0, 1), ...handles, EXTRA_DATA])
+  );
+}
+
+class MockEncryptedInput implements FhevmEncryptedInput {
+  private readonly values: { type: FheTypeName; value: ClearValueType }[] = [];
+
+  constructor(
+    private readonly backend: MockFheInstance,
+    private readonly contractAddress: string,
+    private readonly userAddress: string
+  ) {}
+
+  private add(type: FheTypeName, value: boolean | number | bigint | string): this {
+    this.values.push({ type, value: toClearValue(type, value) });
+    return this;
+  }
+
+  addBool(value: boolean | number | bigint) { return this.add('ebool', value); }
+  add8(value: number | bigint) { return this.add('euint8', value); }
+  add16(value: number | bigint) { return this.add('euint16', value); }
+  add32(value: number | bigint) { return this.add('euint32', value); }
+  add64(value: number | bigint) { return this.add('euint64', value); }
+  add128(value: number | bigint) { return this.add('euint128', value); }
+  add256(value: number | bigint) { return this.add('euint256', value); }
+  addAddress(value: string) { return this.add('eaddress', value); }
+
+  getBits(): number[] {
+    return this.values.map(({ type }) => FHE_INPUT_BITS[type]);
+  }
+
+  async encrypt(): Promise<EncryptedInputResult> {
+    return this.backend.encryptInput(this.contractAddress, this.userAddress, this.values);
+  }
+}
+
+/**
+ * In-memory FhevmInstance. Cleartexts never leave the process, and its proofs
+ * only make sense to this instance; see the header for the on-chain caveat.
+ */
+export class MockFheInstance implements FhevmInstance {
+  private readonly records = new Map<string, MockRecord>();
+  private keypairCount = 0;
+
+  constructor(
+    readonly network: FhevmNetworkConfig = HARDHAT_NETWORK,
+    private readonly seed: string = 'fhevm-sdk-mock'
+  ) {}
+
+  createEncryptedInput(contractAddress: string, userAddress: string): FhevmEncryptedInput {
+    if (!ethers.isAddress(contractAddress)) throw new Error(`Invalid contract address: ${contractAddress}`);
+    if (!ethers.isAddress(userAddress)) throw new Error(`Invalid user address: ${userAddress}`);
+    return new MockEncryptedInput(this, contractAddress, userAddress);
+  }
+
+  /**
+   * Same inputs always produce the same handles and proof
+   */
+  encryptInput(
+    contractAddress: string,
+    userAddress: string,
+    values: { type: FheTypeName; value: ClearValueType }[]
+  ): EncryptedInputResult {
+    if (values.length === 0) throw new Error('Encrypted input is empty');
+
+    const blobHash = ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ['string', 'address', 'address', 'uint256', 'uint8[]', 'bytes32[]'],
+        [
+          this.seed,
+          contractAddress,
+          userAddress,
+          this.network.chainId,
+          values.map(({ type }) => FHE_TYPE_IDS[type]),
+          values.map(({ type, value }) => ethers.zeroPadValue(
+            type === 'eaddress' ? (value as string) : ethers.toBeHex(BigInt(value as bigint | boolean)),
+            32
+          )),
+        ]
+      )
+    );
+
+    const handles = values.map(({ type, value }, index) => {
+      const handle = computeInputHandle(blobHash, index, this.network.chainId, type);
+      this.records.set(handle, { type, value, contractAddress, userAddress });
+      return handle;
+    });
+
+    return {
+      handles: handles.map(handle => ethers.getBytes(handle)),
+      inputProof: computeInputProof(handles),
+    };
+  }
+
+  /**
+   * Seed a cleartext for a handle the mock did not create (e.g. a contract computation result)
+   */
+  setClearValue(
+    handle: string,
+    type: FheTypeName,
+    value: boolean | number | bigint | string,
+    contractAddress: string = ethers.ZeroAddress,
+    userAddress: string = ethers.ZeroAddress
+  ): void {
+    this.records.set(ethers.hexlify(handle).toLowerCase(), {
+      type,
+      value: toClearValue(type, value),
+      contractAddress,
+      userAddress,
+    });
+  }
+
+  generateKeypair(): FhevmKeypair {
+    const index = this.keypairCount++;
+    const privateKey = ethers.keccak256(ethers.toUtf8Bytes(`${this.seed}:keypair:${index}`));
+    return {
+      privateKey: privateKey.slice(2),
+      publicKey: ethers.keccak256(privateKey).slice(2),
+    };
+  }
+
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): EIP712 {
+    return {
+      domain: {
+        name: 'Decryption',
+        version: '1',
+        chainId: this.network.chainId,
+        verifyingContract: this.network.verifyingContractAddressDecryption,
+      },
+      types: {
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+          { name: 'verifyingContract', type: 'address' },
+        ],
+        UserDecryptRequestVerification: [
+          { name: 'publicKey', type: 'bytes' },
+          { name: 'contractAddresses', type: 'address[]' },
+          { name: 'startTimestamp', type: 'uint256' },
+          { name: 'durationDays', type: 'uint256' },
+          { name: 'extraData', type: 'bytes' },
+        ],
+      },
+      primaryType: 'UserDecryptRequestVerification',
+      message: {
+        publicKey: publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`,
+        contractAddresses,
+        startTimestamp: startTimestamp.toString(),
+        durationDays: durationDays.toString(),
+        extraData: EXTRA_DATA,
+      },
+    };
+  }
+
+  async userDecrypt(
+    handles: HandleContractPair[],
+    _privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<UserDecryptResults> {
+    const eip712 = this.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+    const signer = ethers.verifyTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+      signature.startsWith('0x') ? signature : `0x${signature}`
+    );
+    if (signer.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error('Invalid EIP-712 signature for user decryption');
+    }
+
+    const expiresAt = (Number(startTimestamp) + Number(durationDays) * 24 * 60 * 60) * 1000;
+    if (Date.now() > expiresAt) {
+      throw new Error('User decryption request has expired');
+    }
+
+    const allowedContracts = contractAddresses.map(address => address.toLowerCase());
+    const clearValues: ClearValues = {};
+    for (const { handle, contractAddress } of handles) {
+      if (!allowedContracts.includes(contractAddress.toLowerCase())) {
+        throw new Error(`Contract ${contractAddress} is not part of the signed request`);
+      }
+      const key = ethers.hexlify(handle) as Hex;
+      clearValues[key] = this.lookup(key).value;
+    }
+    return clearValues;
+  }
+
+  async publicDecrypt(handles: (string | Uint8Array)[]): Promise<PublicDecryptResults> {
+    const keys = handles.map(handle => ethers.hexlify(handle) as Hex);
+    const records = keys.map(key => this.lookup(key));
+
+    const clearValues: ClearValues = {};
+    keys.forEach((key, i) => { clearValues[key] = records[i].value; });
+
+    const abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
+      records.map(({ type }) => solidityTypeOf(type)),
+      records.map(({ value }) => value)
+    ) as Hex;
+
+    return {
+      clearValues,
+      abiEncodedClearValues,
+      // numSigners = 0 followed by extraData; only valid against the in-memory mock
+      decryptionProof: ethers.concat([ethers.toBeHex(0, 1), EXTRA_DATA]) as Hex,
+    };
+  }
+
+  private lookup(handle: string): MockRecord {
+    const record = this.records.get(handle.toLowerCase());
+    if (!record) throw new Error(`Unknown handle in mock backend: ${handle}`);
+    return record;
+  }
+}
+
+/**
+ * Create a relayer-free FhevmInstance.
+ * With `rpcUrl`, encrypts and decrypts against the Hardhat mock coprocessor through
+ * `@fhevm/mock-utils`; without it, the in-memory instance is off-chain only.
+ */
+export async function createMockFheInstance(options?: MockFheInstanceOptions): Promise<FhevmInstance> {
+  const network = resolveNetworkConfig(options?.network ?? HARDHAT_NETWORK);
+
+  if (!options?.rpcUrl) {
+    return new MockFheInstance(network, options?.seed);
+  }
+
+  // Use eval to prevent bundlers from resolving the optional peer dependency
+  const mockUtils: MockUtilsModule = await eval('import("@fhevm/mock-utils")');
+  const provider = new ethers.JsonRpcProvider(options.rpcUrl);
+
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== network.chainId) {
+    throw new Error(`Hardhat node at ${options.rpcUrl} reports chain ${chainId}, expected ${network.chainId}`);
+  }
+
+  return mockUtils.MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: network.aclContractAddress,
+      kmsContractAddress: network.kmsContractAddress,
+      inputVerifierContractAddress: network.inputVerifierContractAddress,
+      verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+      verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+      chainId: network.chainId,
+      gatewayChainId: network.gatewayChainId,
+    },
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} }
+  );
+}
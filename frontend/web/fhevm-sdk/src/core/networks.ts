@@ -0,0 +1,125 @@
+/**
+ * FHEVM Network Configs - Universal SDK
+ * Presets for Sepolia and the local Hardhat node, plus registration of custom networks
+ */
+
+import { ethers } from 'ethers';
+
+export interface FhevmNetworkConfig {
+  /** Registry name, e.g. `sepolia` */
+  name: string;
+  /** FHEVM host chain id */
+  chainId: number;
+  /** JSON-RPC endpoint of the host chain */
+  rpcUrl: string;
+  /** ACL contract (host chain) */
+  aclContractAddress: string;
+  /** KMS verifier contract (host chain) */
+  kmsContractAddress: string;
+  /** Input verifier contract (host chain) */
+  inputVerifierContractAddress: string;
+  /** Decryption contract (gateway chain) */
+  verifyingContractAddressDecryption: string;
+  /** Input verification contract (gateway chain) */
+  verifyingContractAddressInputVerification: string;
+  /** Gateway chain id */
+  gatewayChainId: number;
+  /** Relayer endpoint; omitted for networks without a relayer */
+  relayerUrl?: string;
+}
+
+/**
+ * A network config, or the name / chain id of a registered one
+ */
+export type FhevmNetworkInput = FhevmNetworkConfig | string | number;
+
+export const SEPOLIA_NETWORK: FhevmNetworkConfig = {
+  name: 'sepolia',
+  chainId: 11155111,
+  rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+  aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+  kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+  verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  gatewayChainId: 10901,
+  relayerUrl: 'https://relayer.testnet.zama.org',
+};
+
+/**
+ * Local Hardhat node running `@fhevm/hardhat-plugin`
+ * Host addresses match fhevmtemp/precompiled-fhevm-host-contracts-addresses.json
+ */
+export const HARDHAT_NETWORK: FhevmNetworkConfig = {
+  name: 'hardhat',
+  chainId: 31337,
+  rpcUrl: 'http://127.0.0.1:8545',
+  aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+  kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+  inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+  verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+  verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+  gatewayChainId: 10901,
+};
+
+const networks = new Map<string, FhevmNetworkConfig>([
+  [SEPOLIA_NETWORK.name, SEPOLIA_NETWORK],
+  [HARDHAT_NETWORK.name, HARDHAT_NETWORK],
+]);
+
+/**
+ * Register a custom network; replaces any network with the same name
+ */
+export function registerNetwork(config: FhevmNetworkConfig): void {
+  networks.set(config.name, config);
+}
+
+/**
+ * Look up a registered network by name or chain id
+ */
+export function getNetworkConfig(nameOrChainId: string | number): FhevmNetworkConfig | null {
+  if (typeof nameOrChainId === 'string') {
+    return networks.get(nameOrChainId) ?? null;
+  }
+  for (const config of networks.values()) {
+    if (config.chainId === nameOrChainId) return config;
+  }
+  return null;
+}
+
+/**
+ * List every registered network
+ */
+export function listNetworks(): FhevmNetworkConfig[] {
+  return Array.from(networks.values());
+}
+
+/**
+ * Resolve a network input to a full config. Defaults to Sepolia.
+ */
+export function resolveNetworkConfig(network?: FhevmNetworkInput): FhevmNetworkConfig {
+  if (network === undefined) return SEPOLIA_NETWORK;
+  if (typeof network === 'object') return network;
+
+  const config = getNetworkConfig(network);
+  if (!config) {
+    throw new Error(`Unknown FHEVM network: ${network}. Register it with registerNetwork() first.`);
+  }
+  return config;
+}
+
+// Read-only providers for host-chain contract reads, one per (chain, RPC endpoint)
+const rpcProviders = new Map<string, ethers.JsonRpcProvider>();
+
+/**
+ * Shared JSON-RPC provider for a network's host chain
+ */
+export function getRpcProvider(network: FhevmNetworkConfig): ethers.JsonRpcProvider {
+  const key = `${network.chainId}:${network.rpcUrl}`;
+  let provider = rpcProviders.get(key);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true });
+    rpcProviders.set(key, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { resolveNodeSigner, SignerEip1193Provider } from './nodeProvider.js';
+
+/**
+ * JSON-RPC provider that never opens a connection
+ */
+function rpcStub(chainId = 11155111n) {
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', undefined, { staticNetwork: true });
+  vi.spyOn(provider, 'getNetwork').mockResolvedValue(new ethers.Network('stub', chainId));
+  const send = vi.spyOn(provider, 'send').mockResolvedValue('0x10');
+  return { provider, send };
+}
+
+const domain = { name: 'Decryption', version: '1', chainId: 11155111, verifyingContract: '0x1111111111111111111111111111111111111111' };
+const types = { Permit: [{ name: 'publicKey', type: 'bytes' }] };
+const message = { publicKey: '0x1234' };
+
+describe('SignerEip1193Provider', () => {
+  it('reports the chain of the RPC endpoint and the signer account', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const { provider } = rpcStub();
+    const eip1193 = new SignerEip1193Provider(provider, wallet);
+
+    expect(await eip1193.request({ method: 'eth_chainId' })).toBe('0xaa36a7');
+    expect(await eip1193.request({ method: 'eth_accounts' })).toEqual([wallet.address]);
+    expect(await new SignerEip1193Provider(provider).request({ method: 'eth_requestAccounts' })).toEqual([]);
+  });
+
+  it('signs personal_sign messages given as hex or text', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const eip1193 = new SignerEip1193Provider(rpcStub().provider, wallet);
+
+    const hex = await eip1193.request({ method: 'personal_sign', params: ['0x68656c6c6f', wallet.address] });
+    expect(ethers.verifyMessage('hello', hex)).toBe(wallet.address);
+    const text = await eip1193.request({ method: 'personal_sign', params: ['hello', wallet.address] });
+    expect(text).toBe(hex);
+  });
+
+  it('signs eth_signTypedData_v4 payloads that include the EIP712Domain type', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const eip1193 = new SignerEip1193Provider(rpcStub().provider, wallet);
+    const typedData = {
+      domain,
+      types: {
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+          { name: 'verifyingContract', type: 'address' },
+        ],
+        ...types,
+      },
+      primaryType: 'Permit',
+      message,
+    };
+
+    const signature = await eip1193.request({ method: 'eth_signTypedData_v4', params: [wallet.address, JSON.stringify(typedData)] });
+    expect(ethers.verifyTypedData(domain, types, message, signature)).toBe(wallet.address);
+  });
+
+  it('refuses to sign for other accounts or without a signer', async () => {
+    const wallet = ethers.Wallet.createRandom();
+    const other = ethers.Wallet.createRandom().address;
+
+    await expect(new SignerEip1193Provider(rpcStub().provider, wallet).request({ method: 'personal_sign', params: ['0x00', other] }))
+      .rejects.toMatchObject({ code: 4100, message: `Account ${other} is not managed by this provider` });
+    await expect(new SignerEip1193Provider(rpcStub().provider).request({ method: 'eth_signTypedData_v4', params: [other, '{}'] }))
+      .rejects.toMatchObject({ code: 4100 });
+  });
+
+  it('forwards read methods to the node and rejects wallet_ methods', async () => {
+    const { provider, send } = rpcStub();
+    const eip1193 = new SignerEip1193Provider(provider, ethers.Wallet.createRandom());
+
+    expect(await eip1193.request({ method: 'eth_blockNumber' })).toBe('0x10');
+    expect(send).toHaveBeenCalledWith('eth_blockNumber', []);
+    await expect(eip1193.request({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x1' }] }))
+      .rejects.toMatchObject({ code: 4200 });
+  });
+});
+
+describe('resolveNodeSigner', () => {
+  it('connects a private key or an unconnected signer to the provider', async () => {
+    const { provider } = rpcStub();
+    const wallet = ethers.Wallet.createRandom();
+
+    const fromKey = await resolveNodeSigner({ privateKey: wallet.privateKey }, provider);
+    expect(await fromKey.getAddress()).toBe(wallet.address);
+    expect(fromKey.provider).toBe(provider);
+    expect((await resolveNodeSigner(wallet, provider)).provider).toBe(provider);
+  });
+});
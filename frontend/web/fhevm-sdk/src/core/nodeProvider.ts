@@ -0,0 +1,162 @@
+/**
+ * Node.js EIP-1193 Provider - Universal SDK
+ * Wraps a JSON-RPC endpoint and a signer (ethers Wallet, keystore file or any
+ * external ethers Signer) so backend jobs can encrypt and user-decrypt as a real account
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Account for the Node.js path: any ethers Signer (Wallet, KMS/HSM-backed signer, ...),
+ * a raw private key, or a JSON keystore given as a file path or as its contents
+ */
+export type NodeSignerInput =
+  | ethers.Signer
+  | { privateKey: string }
+  | { keystore: string; password: string };
+
+type RequestArguments = { method: string; params?: unknown[] | Record<string, unknown> };
+
+// EIP-1193 provider error codes
+const UNAUTHORIZED = 4100;
+const UNSUPPORTED_METHOD = 4200;
+
+class ProviderRpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'ProviderRpcError';
+  }
+}
+
+async function readKeystore(keystore: string): Promise<string> {
+  if (keystore.trim().startsWith('{')) return keystore;
+  // Use eval to prevent bundlers from pulling node:fs into browser builds
+  const fs = await eval('import("node:fs/promises")');
+  return fs.readFile(keystore, 'utf8');
+}
+
+/**
+ * Turn a NodeSignerInput into a signer connected to `provider`
+ */
+export async function resolveNodeSigner(input: NodeSignerInput, provider: ethers.Provider): Promise<ethers.Signer> {
+  // Checked first: an ethers Wallet also carries a `privateKey` field
+  if (isSigner(input)) {
+    return input.provider ? input : input.connect(provider);
+  }
+  if ('privateKey' in input) {
+    return new ethers.Wallet(input.privateKey, provider);
+  }
+  const wallet = await ethers.Wallet.fromEncryptedJson(await readKeystore(input.keystore), input.password);
+  return wallet.connect(provider);
+}
+
+function isSigner(input: NodeSignerInput): input is ethers.Signer {
+  return typeof (input as ethers.Signer).getAddress === 'function';
+}
+
+/**
+ * EIP-1193 provider for Node.js: signing methods go to the signer,
+ * everything else is forwarded to the RPC endpoint
+ */
+export class SignerEip1193Provider implements ethers.Eip1193Provider {
+  constructor(
+    readonly provider: ethers.JsonRpcProvider,
+    readonly signer?: ethers.Signer
+  ) {}
+
+  private async requireAccount(address?: unknown): Promise<ethers.Signer> {
+    if (!this.signer) {
+      throw new ProviderRpcError(UNAUTHORIZED, 'No signer configured for this provider');
+    }
+    if (typeof address === 'string' && ethers.getAddress(address) !== ethers.getAddress(await this.signer.getAddress())) {
+      throw new ProviderRpcError(UNAUTHORIZED, `Account ${address} is not managed by this provider`);
+    }
+    return this.signer;
+  }
+
+  async request({ method, params }: RequestArguments): Promise<any> {
+    const args = Array.isArray(params) ? params : [];
+
+    switch (method) {
+      case 'eth_chainId': {
+        // Ask the RPC, so a misconfigured endpoint cannot pass for the expected chain
+        const { chainId } = await this.provider.getNetwork();
+        return ethers.toQuantity(chainId);
+      }
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return this.signer ? [await this.signer.getAddress()] : [];
+      case 'personal_sign': {
+        const [data, address] = args as [string, string];
+        const signer = await this.requireAccount(address);
+        return signer.signMessage(ethers.isHexString(data) ? ethers.getBytes(data) : data);
+      }
+      case 'eth_sign': {
+        const [address, data] = args as [string, string];
+        const signer = await this.requireAccount(address);
+        return signer.signMessage(ethers.getBytes(data));
+      }
+      case 'eth_signTypedData_v4': {
+        const [address, typedData] = args as [string, string | Record<string, any>];
+        const signer = await this.requireAccount(address);
+        const { domain, types, message } = typeof typedData === 'string' ? JSON.parse(typedData) : typedData;
+        // ethers derives the domain type itself and rejects it in `types`
+        const { EIP712Domain: _domainType, ...messageTypes } = types;
+        return signer.signTypedData(domain, messageTypes, message);
+      }
+      case 'eth_signTransaction': {
+        const signer = await this.requireAccount((args[0] as any)?.from);
+        return signer.signTransaction(toTransactionRequest(args[0]));
+      }
+      case 'eth_sendTransaction': {
+        const signer = await this.requireAccount((args[0] as any)?.from);
+        const tx = await signer.sendTransaction(toTransactionRequest(args[0]));
+        return tx.hash;
+      }
+      default:
+        if (method.startsWith('wallet_')) {
+          throw new ProviderRpcError(UNSUPPORTED_METHOD, `Unsupported method: ${method}`);
+        }
+        // Read methods (eth_call, eth_getBalance, eth_sendRawTransaction, ...) go to the node
+        return this.provider.send(method, args);
+    }
+  }
+
+  // No wallet UI in Node.js: accounts and chain never change, so there is nothing to emit
+  on(): this {
+    return this;
+  }
+
+  removeListener(): this {
+    return this;
+  }
+}
+
+/**
+ * Map a JSON-RPC transaction object (hex quantities, `gas`) onto an ethers request
+ */
+function toTransactionRequest(tx: any): ethers.TransactionRequest {
+  return {
+    from: tx.from,
+    to: tx.to,
+    data: tx.data ?? tx.input,
+    value: tx.value,
+    nonce: tx.nonce !== undefined ? Number(tx.nonce) : undefined,
+    gasLimit: tx.gas ?? tx.gasLimit,
+    gasPrice: tx.gasPrice,
+    maxFeePerGas: tx.maxFeePerGas,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    type: tx.type !== undefined ? Number(tx.type) : undefined,
+    chainId: tx.chainId,
+  };
+}
+
+/**
+ * Build a signer-backed EIP-1193 provider for `rpcUrl`.
+ * Without a signer, the provider is read-only and reports no accounts.
+ */
+export async function createNodeProvider(rpcUrl: string, signer?: NodeSignerInput): Promise<SignerEip1193Provider> {
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const resolved = signer ? await resolveNodeSigner(signer, provider) : undefined;
+  return new SignerEip1193Provider(provider, resolved);
+}
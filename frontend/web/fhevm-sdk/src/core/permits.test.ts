@@ -0,0 +1,121 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { openDB } from 'idb';
+import {
+  getDecryptionPermit,
+  isPermitValid,
+  listDecryptionPermits,
+  permitExpiresAt,
+  revokeAllDecryptionPermits,
+  revokeDecryptionPermit,
+} from './permits.js';
+import { createMockFheInstance } from './mock.js';
+import { disposeAllFheInstances, registerFheInstance } from './registry.js';
+import type { FhevmInstance } from './types.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const DAY = 24 * 60 * 60;
+
+describe('decryption permits', () => {
+  let fhe: FhevmInstance;
+  let user: ethers.HDNodeWallet;
+
+  beforeEach(async () => {
+    fhe = await createMockFheInstance();
+    user = ethers.Wallet.createRandom();
+    vi.spyOn(user, 'signTypedData');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    disposeAllFheInstances();
+    await revokeAllDecryptionPermits();
+  });
+
+  it('signs once and reuses the permit until it expires', async () => {
+    const permit = await getDecryptionPermit(fhe, user, [CONTRACT]);
+    expect(await getDecryptionPermit(fhe, user, [CONTRACT.toUpperCase().replace('0X', '0x')])).toEqual(permit);
+    expect(user.signTypedData).toHaveBeenCalledOnce();
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime((permitExpiresAt(permit) + 1) * 1000);
+    const renewed = await getDecryptionPermit(fhe, user, [CONTRACT]);
+    expect(renewed.startTimeStamp).not.toBe(permit.startTimeStamp);
+    expect(user.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('treats a permit as expired shortly before its deadline', async () => {
+    const permit = await getDecryptionPermit(fhe, user, [CONTRACT], { durationDays: 1 });
+    const start = Number(permit.startTimeStamp);
+
+    expect(permitExpiresAt(permit)).toBe(start + DAY);
+    expect(isPermitValid(permit, start + DAY - 120)).toBe(true);
+    expect(isPermitValid(permit, start + DAY - 30)).toBe(false);
+  });
+
+  it('asks for a new signature after a revoke', async () => {
+    const permit = await getDecryptionPermit(fhe, user, [CONTRACT]);
+    await revokeDecryptionPermit(permit.id);
+
+    expect(await listDecryptionPermits(user.address)).toEqual([]);
+    await getDecryptionPermit(fhe, user, [CONTRACT]);
+    expect(user.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('revokes only the given user\'s permits', async () => {
+    const other = ethers.Wallet.createRandom();
+    await getDecryptionPermit(fhe, user, [CONTRACT]);
+    await getDecryptionPermit(fhe, other, [CONTRACT]);
+
+    await revokeAllDecryptionPermits(user.address);
+    expect((await listDecryptionPermits()).map(permit => permit.userAddress)).toEqual([other.address]);
+  });
+
+  it('keeps permits of different relayers apart', async () => {
+    const second = await createMockFheInstance();
+    registerFheInstance(31337, fhe, 'https://relayer-a.example');
+    registerFheInstance(31337, second, 'https://relayer-b.example');
+
+    const a = await getDecryptionPermit(fhe, user, [CONTRACT]);
+    const b = await getDecryptionPermit(second, user, [CONTRACT]);
+    expect(a.id).toContain('https://relayer-a.example');
+    expect(b.id).not.toBe(a.id);
+    expect(user.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('stores the private key encrypted', async () => {
+    const permit = await getDecryptionPermit(fhe, user, [CONTRACT]);
+
+    const db = await openDB('fhevm-sdk');
+    const [stored] = await db.getAll('decryption-permits');
+    db.close();
+    expect(stored.id).toBe(permit.id);
+    expect(stored.privateKey).toBeUndefined();
+    expect(JSON.stringify(stored)).not.toContain(permit.privateKey);
+    expect((await listDecryptionPermits())[0].privateKey).toBe(permit.privateKey);
+  });
+
+  it('asks for one signature when decryptions for the same permit run concurrently', async () => {
+    const [first, second] = await Promise.all([
+      getDecryptionPermit(fhe, user, [CONTRACT]),
+      getDecryptionPermit(fhe, user, [CONTRACT]),
+    ]);
+
+    expect(second).toEqual(first);
+    expect(user.signTypedData).toHaveBeenCalledOnce();
+  });
+
+  it('deletes permits whose key can no longer be decrypted', async () => {
+    const permit = await getDecryptionPermit(fhe, user, [CONTRACT]);
+
+    // As after a lost wrapping key: the ciphertext no longer decrypts
+    const db = await openDB('fhevm-sdk');
+    const stored = await db.get('decryption-permits', permit.id);
+    await db.put('decryption-permits', { ...stored, privateKeyCiphertext: new Uint8Array(48).buffer });
+
+    expect(await listDecryptionPermits()).toEqual([]);
+    expect(await db.count('decryption-permits')).toBe(0);
+    db.close();
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * FHEVM Decryption Permits - Universal SDK
+ * Reuses the EIP-712 user-decryption keypair and signature until they expire,
+ * so revealing several values costs one wallet popup instead of one per value
+ */
+
+import { openDB } from 'idb';
+import type { IDBPDatabase } from 'idb';
+import { ethers } from 'ethers';
+import { classifyError } from './errors.js';
+import { chainIdOf, relayerUrlOf } from './registry.js';
+import type { FhevmInstance } from './types.js';
+
+export interface DecryptionPermit {
+  /** `${chainId}:${relayerUrl}:${user}:${contracts}`; a permit is only reused with the relayer it was signed for */
+  id: string;
+  chainId: number;
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimeStamp: string;
+  durationDays: string;
+}
+
+/**
+ * Storage backend for permits. IndexedDB in browsers, memory elsewhere.
+ * The IndexedDB store encrypts each permit's private key with a non-extractable
+ * AES-GCM key that never leaves the browser's key storage.
+ */
+export interface PermitStore {
+  get(id: string): Promise<DecryptionPermit | undefined>;
+  put(permit: DecryptionPermit): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<DecryptionPermit[]>;
+}
+
+export interface PermitOptions {
+  /** Validity requested for new permits; defaults to 10 days */
+  durationDays?: number;
+}
+
+const DB_NAME = 'fhevm-sdk';
+const STORE_NAME = 'decryption-permits';
+const KEY_STORE_NAME = 'permit-keys';
+const WRAPPING_KEY_ID = 'aes-gcm';
+const DEFAULT_DURATION_DAYS = 10;
+// Treat permits as expired slightly early so a request never races the deadline
+const EXPIRY_MARGIN_SECONDS = 60;
+
+/**
+ * Permit as stored in IndexedDB: the private key is AES-GCM encrypted
+ */
+interface StoredPermit extends Omit<DecryptionPermit, 'privateKey'> {
+  privateKeyIv: Uint8Array;
+  privateKeyCiphertext: ArrayBuffer;
+}
+
+class IndexedDBPermitStore implements PermitStore {
+  private db: Promise<IDBPDatabase> | null = null;
+  private key: Promise<CryptoKey> | null = null;
+
+  private open(): Promise<IDBPDatabase> {
+    if (!this.db) {
+      this.db = openDB(DB_NAME, 2, {
+        upgrade(db, oldVersion, _newVersion, transaction) {
+          if (oldVersion < 1) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          } else {
+            // Version 1 permits hold plaintext private keys and ids without the relayer
+            void transaction.objectStore(STORE_NAME).clear();
+          }
+          db.createObjectStore(KEY_STORE_NAME);
+        },
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * The wrapping key is created once and stored as a non-extractable CryptoKey
+   */
+  private wrappingKey(): Promise<CryptoKey> {
+    if (!this.key) {
+      this.key = (async () => {
+        const db = await this.open();
+        const stored: CryptoKey | undefined = await db.get(KEY_STORE_NAME, WRAPPING_KEY_ID);
+        if (stored) return stored;
+
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        await db.put(KEY_STORE_NAME, key, WRAPPING_KEY_ID);
+        return key;
+      })();
+      this.key.catch(() => {
+        this.key = null;
+      });
+    }
+    return this.key;
+  }
+
+  private async seal(permit: DecryptionPermit): Promise<StoredPermit> {
+    const { privateKey, ...rest } = permit;
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await this.wrappingKey(),
+      new TextEncoder().encode(privateKey)
+    );
+    return { ...rest, privateKeyIv: iv, privateKeyCiphertext: ciphertext };
+  }
+
+  /**
+   * Undefined when the key cannot be decrypted (e.g. the wrapping key was cleared)
+   */
+  private async unseal(stored: StoredPermit | undefined): Promise<DecryptionPermit | undefined> {
+    if (!stored) return undefined;
+    const { privateKeyIv, privateKeyCiphertext, ...rest } = stored;
+    const key = await this.wrappingKey();
+    try {
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: privateKeyIv }, key, privateKeyCiphertext);
+      return { ...rest, privateKey: new TextDecoder().decode(plaintext) };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async get(id: string) {
+    return this.unseal(await (await this.open()).get(STORE_NAME, id));
+  }
+
+  async put(permit: DecryptionPermit) {
+    const stored = await this.seal(permit);
+    await (await this.open()).put(STORE_NAME, stored);
+  }
+
+  async delete(id: string) {
+    await (await this.open()).delete(STORE_NAME, id);
+  }
+
+  /**
+   * Records whose key no longer decrypts are deleted: they can never be used again,
+   * and revokeAllDecryptionPermits would otherwise never see them
+   */
+  async list() {
+    const db = await this.open();
+    const stored: StoredPermit[] = await db.getAll(STORE_NAME);
+    const permits = await Promise.all(stored.map(permit => this.unseal(permit)));
+
+    const unreadable = stored.filter((_, i) => permits[i] === undefined);
+    await Promise.all(unreadable.map(({ id }) => db.delete(STORE_NAME, id)));
+    return permits.filter((permit): permit is DecryptionPermit => permit !== undefined);
+  }
+}
+
+class MemoryPermitStore implements PermitStore {
+  private permits = new Map<string, DecryptionPermit>();
+
+  async get(id: string) {
+    return this.permits.get(id);
+  }
+
+  async put(permit: DecryptionPermit) {
+    this.permits.set(permit.id, permit);
+  }
+
+  async delete(id: string) {
+    this.permits.delete(id);
+  }
+
+  async list() {
+    return Array.from(this.permits.values());
+  }
+}
+
+let permitStore: PermitStore | null = null;
+
+// Signature requests in flight, by permit id, so concurrent decryptions share one wallet prompt
+const pendingPermits = new Map<string, Promise<DecryptionPermit>>();
+
+function getPermitStore(): PermitStore {
+  if (!permitStore) {
+    permitStore = typeof indexedDB !== 'undefined' ? new IndexedDBPermitStore() : new MemoryPermitStore();
+  }
+  return permitStore;
+}
+
+/**
+ * Replace the permit storage backend (e.g. memory only, so keys never reach disk, or memory in tests)
+ */
+export function setPermitStore(store: PermitStore): void {
+  permitStore = store;
+}
+
+function permitId(chainId: number, relayerUrl: string, userAddress: string, contractAddresses: string[]): string {
+  return `${chainId}:${relayerUrl}:${userAddress}:${contractAddresses.join(',')}`;
+}
+
+function normalizeContracts(contractAddresses: string[]): string[] {
+  return Array.from(new Set(contractAddresses.map(address => ethers.getAddress(address)))).sort();
+}
+
+/**
+ * Expiry of a permit in unix seconds
+ */
+export function permitExpiresAt(permit: DecryptionPermit): number {
+  return Number(permit.startTimeStamp) + Number(permit.durationDays) * 24 * 60 * 60;
+}
+
+export function isPermitValid(permit: DecryptionPermit, nowSeconds = Math.floor(Date.now() / 1000)): boolean {
+  return nowSeconds + EXPIRY_MARGIN_SECONDS < permitExpiresAt(permit);
+}
+
+/**
+ * Return a stored permit for (user, contract set) on the instance's chain and relayer,
+ * or sign and store a new one. Concurrent calls for the same permit share one signature.
+ */
+export async function getDecryptionPermit(
+  fhe: FhevmInstance,
+  signer: ethers.Signer,
+  contractAddresses: string[],
+  options?: PermitOptions
+): Promise<DecryptionPermit> {
+  const userAddress = ethers.getAddress(await signer.getAddress());
+  const contracts = normalizeContracts(contractAddresses);
+
+  const chainId = chainIdOf(fhe);
+  const id = permitId(chainId, relayerUrlOf(fhe) ?? '', userAddress, contracts);
+
+  const pending = pendingPermits.get(id);
+  if (pending) return pending;
+
+  const request = loadOrSignPermit(fhe, signer, { id, chainId, userAddress, contractAddresses: contracts }, options);
+  pendingPermits.set(id, request);
+  try {
+    return await request;
+  } finally {
+    pendingPermits.delete(id);
+  }
+}
+
+async function loadOrSignPermit(
+  fhe: FhevmInstance,
+  signer: ethers.Signer,
+  scope: Pick<DecryptionPermit, 'id' | 'chainId' | 'userAddress' | 'contractAddresses'>,
+  options?: PermitOptions
+): Promise<DecryptionPermit> {
+  const store = getPermitStore();
+  const { id, contractAddresses: contracts } = scope;
+  const stored = await store.get(id);
+  if (stored && isPermitValid(stored)) {
+    return stored;
+  }
+
+  const keypair = fhe.generateKeypair();
+  const startTimeStamp = Math.floor(Date.now() / 1000).toString();
+  const durationDays = String(options?.durationDays ?? DEFAULT_DURATION_DAYS);
+
+  const eip712 = fhe.createEIP712(keypair.publicKey, contracts, startTimeStamp, durationDays);
+
+  let signature: string;
+  try {
+    signature = await signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+  } catch (error) {
+    // A dismissed wallet prompt becomes UserRejectedSignatureError
+    throw classifyError(error);
+  }
+
+  const permit: DecryptionPermit = {
+    ...scope,
+    publicKey: keypair.publicKey,
+    privateKey: keypair.privateKey,
+    signature,
+    startTimeStamp,
+    durationDays,
+  };
+  await store.put(permit);
+  return permit;
+}
+
+/**
+ * List stored permits, optionally for one user
+ */
+export async function listDecryptionPermits(userAddress?: string): Promise<DecryptionPermit[]> {
+  const permits = await getPermitStore().list();
+  if (!userAddress) return permits;
+
+  const user = ethers.getAddress(userAddress);
+  return permits.filter(permit => permit.userAddress === user);
+}
+
+/**
+ * Delete one stored permit; the next decryption asks for a new signature
+ */
+export async function revokeDecryptionPermit(id: string): Promise<void> {
+  await getPermitStore().delete(id);
+}
+
+/**
+ * Delete every stored permit, optionally only those of one user
+ */
+export async function revokeAllDecryptionPermits(userAddress?: string): Promise<void> {
+  const store = getPermitStore();
+  const permits = await listDecryptionPermits(userAddress);
+  await Promise.all(permits.map(permit => store.delete(permit.id)));
+}
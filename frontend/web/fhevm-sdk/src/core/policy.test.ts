@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CALL_POLICY, isRetryableError, raceAbort, runWithPolicy, setCallPolicy } from './policy.js';
+import { DecryptionNotAllowedError, FhevmAbortedError, FhevmTimeoutError, RelayerUnavailableError } from './errors.js';
+
+const never = () => new Promise<never>(() => {});
+
+describe('runWithPolicy', () => {
+  beforeEach(() => {
+    setCallPolicy({ retry: { retries: 2, initialDelayMs: 1, maxDelayMs: 1 } });
+  });
+
+  afterEach(() => {
+    setCallPolicy(DEFAULT_CALL_POLICY);
+  });
+
+  it('retries transient relayer failures until one succeeds', async () => {
+    const call = vi.fn()
+      .mockRejectedValueOnce(new RelayerUnavailableError())
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockResolvedValue('ok');
+
+    await expect(runWithPolicy('userDecrypt', call)).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up once the retries are used', async () => {
+    const call = vi.fn().mockRejectedValue(new RelayerUnavailableError());
+
+    await expect(runWithPolicy('publicDecrypt', call, { retries: 1 })).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry failures that would fail again', async () => {
+    const call = vi.fn().mockRejectedValue(new DecryptionNotAllowedError('0x01'));
+
+    await expect(runWithPolicy('userDecrypt', call)).rejects.toBeInstanceOf(DecryptionNotAllowedError);
+    expect(call).toHaveBeenCalledOnce();
+  });
+
+  it('times out a call that does not settle', async () => {
+    const call = vi.fn(never);
+
+    await expect(runWithPolicy('userDecrypt', call, { timeoutMs: 5, retries: 0 })).rejects.toBeInstanceOf(FhevmTimeoutError);
+  });
+
+  it('retries a timed-out decryption but not a timed-out encryption', async () => {
+    const decrypt = vi.fn(never);
+    await expect(runWithPolicy('userDecrypt', decrypt, { timeoutMs: 5 })).rejects.toBeInstanceOf(FhevmTimeoutError);
+    expect(decrypt).toHaveBeenCalledTimes(3);
+
+    const encrypt = vi.fn(never);
+    await expect(runWithPolicy('encrypt', encrypt, { timeoutMs: 5 })).rejects.toBeInstanceOf(FhevmTimeoutError);
+    expect(encrypt).toHaveBeenCalledOnce();
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const call = vi.fn().mockResolvedValue('ok');
+
+    await expect(runWithPolicy('encrypt', call, { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(FhevmAbortedError);
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('rejects an in-flight call and stops retrying on abort', async () => {
+    const controller = new AbortController();
+    const call = vi.fn(never);
+
+    const result = runWithPolicy('userDecrypt', call, { signal: controller.signal, timeoutMs: 0 });
+    controller.abort();
+    await expect(result).rejects.toBeInstanceOf(FhevmAbortedError);
+    expect(call).toHaveBeenCalledOnce();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('treats timeouts as retryable except for encryption', () => {
+    const timeout = new FhevmTimeoutError('encrypt', 10);
+    expect(isRetryableError(timeout, 'userDecrypt')).toBe(true);
+    expect(isRetryableError(timeout, 'encrypt')).toBe(false);
+    expect(isRetryableError(new RelayerUnavailableError(), 'encrypt')).toBe(true);
+  });
+});
+
+describe('raceAbort', () => {
+  it('settles with the promise, or rejects when the signal aborts first', async () => {
+    await expect(raceAbort(Promise.resolve(1), new AbortController().signal)).resolves.toBe(1);
+
+    const controller = new AbortController();
+    const pending = raceAbort(never(), controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(FhevmAbortedError);
+  });
+});
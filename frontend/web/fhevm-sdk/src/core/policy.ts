@@ -0,0 +1,196 @@
+/**
+ * FHEVM Call Policy - Universal SDK
+ * Per-operation timeouts, retries with exponential backoff and AbortSignal
+ * cancellation for relayer calls
+ */
+
+import { classifyError, FhevmAbortedError, FhevmTimeoutError, RelayerUnavailableError } from './errors.js';
+import { sdkLogger } from './logger.js';
+import { reportTelemetry } from './telemetry.js';
+import type { FhevmCallControl } from './types.js';
+
+export type FhevmOperation = 'encrypt' | 'userDecrypt' | 'publicDecrypt';
+
+export interface RetryPolicy {
+  /** Attempts after the first one */
+  retries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  /** Delay multiplier between attempts */
+  factor: number;
+}
+
+export interface CallPolicy {
+  timeoutMs: Record<FhevmOperation, number>;
+  retry: RetryPolicy;
+}
+
+export interface CallPolicyInput {
+  timeoutMs?: Partial<Record<FhevmOperation, number>>;
+  retry?: Partial<RetryPolicy>;
+}
+
+export const DEFAULT_CALL_POLICY: CallPolicy = {
+  timeoutMs: {
+    // Input proofs need ZK proof generation in the browser plus coprocessor signatures
+    encrypt: 120_000,
+    userDecrypt: 60_000,
+    publicDecrypt: 60_000,
+  },
+  retry: {
+    retries: 2,
+    initialDelayMs: 500,
+    maxDelayMs: 8_000,
+    factor: 2,
+  },
+};
+
+let callPolicy: CallPolicy = DEFAULT_CALL_POLICY;
+
+/**
+ * Override parts of the call policy; omitted fields keep their current value
+ */
+export function setCallPolicy(policy: CallPolicyInput): void {
+  callPolicy = {
+    timeoutMs: { ...callPolicy.timeoutMs, ...policy.timeoutMs },
+    retry: { ...callPolicy.retry, ...policy.retry },
+  };
+}
+
+export function getCallPolicy(): CallPolicy {
+  return callPolicy;
+}
+
+/**
+ * Only transient failures are retried; rejections, ACL denials and bad proofs are not.
+ * A timed-out encryption is not retried either: its ZK proof keeps running in the
+ * background, so another attempt would only add a second proof alongside it.
+ */
+export function isRetryableError(error: unknown, operation?: FhevmOperation): boolean {
+  if (error instanceof FhevmTimeoutError) return operation !== 'encrypt';
+  return error instanceof RelayerUnavailableError;
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new FhevmAbortedError(signal.reason);
+}
+
+/**
+ * Abort `controller` when `signal` aborts, so a hook's own controller follows the caller's signal
+ */
+export function linkAbortSignal(controller: AbortController, signal?: AbortSignal): void {
+  if (!signal) return;
+  if (signal.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+}
+
+/**
+ * Settle with `promise`, or reject with FhevmAbortedError once `signal` aborts.
+ * The work behind `promise` is not stopped; its result is ignored.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new FhevmAbortedError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      error => { signal.removeEventListener('abort', onAbort); reject(error); }
+    );
+  });
+}
+
+/**
+ * Settle with `promise`, or reject on timeout or abort. The relayer SDK takes no
+ * AbortSignal, so an abandoned request still completes in the background; its result is ignored.
+ */
+function settleWithin<T>(operation: FhevmOperation, promise: Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      cleanup();
+      reject(new FhevmAbortedError(signal?.reason));
+    };
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+          cleanup();
+          reject(new FhevmTimeoutError(operation, timeoutMs));
+        }, timeoutMs)
+      : undefined;
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { cleanup(); resolve(value); },
+      error => { cleanup(); reject(error); }
+    );
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new FhevmAbortedError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function reportCall(operation: FhevmOperation, event: { durationMs: number; success: boolean; error?: unknown; attempts: number }): void {
+  if (operation === 'encrypt') {
+    reportTelemetry('onEncrypt', event);
+  } else {
+    reportTelemetry('onDecrypt', { ...event, kind: operation === 'userDecrypt' ? 'user' : 'public' });
+  }
+}
+
+/**
+ * Run a relayer call under the call policy. Failures are classified (see errors.ts);
+ * retryable ones are retried with exponential backoff until the attempts run out.
+ * The outcome is reported to the onEncrypt / onDecrypt telemetry callbacks.
+ */
+export async function runWithPolicy<T>(
+  operation: FhevmOperation,
+  call: () => Promise<T>,
+  control?: FhevmCallControl
+): Promise<T> {
+  const { retry } = callPolicy;
+  const timeoutMs = control?.timeoutMs ?? callPolicy.timeoutMs[operation];
+  const retries = control?.retries ?? retry.retries;
+  const startedAt = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      throwIfAborted(control?.signal);
+      const result = await settleWithin(operation, call(), timeoutMs, control?.signal);
+      reportCall(operation, { durationMs: Date.now() - startedAt, success: true, attempts: attempt + 1 });
+      return result;
+    } catch (cause) {
+      const error = classifyError(cause);
+      if (attempt >= retries || !isRetryableError(error, operation)) {
+        reportCall(operation, { durationMs: Date.now() - startedAt, success: false, error, attempts: attempt + 1 });
+        throw error;
+      }
+
+      const delay = Math.min(retry.initialDelayMs * retry.factor ** attempt, retry.maxDelayMs);
+      sdkLogger.warn(`${operation} failed (attempt ${attempt + 1}/${retries + 1}), retrying in ${delay} ms`, error);
+      try {
+        await sleep(delay, control?.signal);
+      } catch (aborted) {
+        reportCall(operation, { durationMs: Date.now() - startedAt, success: false, error: aborted, attempts: attempt + 1 });
+        throw aborted;
+      }
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  parseDecryptionProof,
+  parseInputProof,
+  recoverCoprocessorSigners,
+  recoverKmsSigners,
+  verifyDecryptionProof,
+  verifyInputProof,
+} from './proofs.js';
+import { InvalidDecryptionProofError, InvalidInputProofError } from './errors.js';
+import { SEPOLIA_NETWORK } from './networks.js';
+import { registerFheInstance } from './registry.js';
+import { FHE_TYPE_IDS } from './fheTypes.js';
+import type { FhevmInstance } from './types.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+const EXTRA_DATA = '0x00';
+
+// Stand-in instance; the pre-flights only need its chain from the registry
+const sepoliaInstance = {} as FhevmInstance;
+registerFheInstance(SEPOLIA_NETWORK.chainId, sepoliaInstance);
+
+function handle(index: number, chainId = SEPOLIA_NETWORK.chainId): string {
+  return ethers.hexlify(ethers.concat([
+    new Uint8Array(21).fill(0xcd),
+    ethers.toBeHex(index, 1),
+    ethers.toBeHex(chainId, 8),
+    ethers.toBeHex(FHE_TYPE_IDS.euint32, 1),
+    '0x00',
+  ]));
+}
+
+async function signInput(signers: ethers.Signer[], handles: string[], contract = CONTRACT, user = USER): Promise<string> {
+  const domain = {
+    name: 'InputVerification',
+    version: '1',
+    chainId: SEPOLIA_NETWORK.gatewayChainId,
+    verifyingContract: SEPOLIA_NETWORK.verifyingContractAddressInputVerification,
+  };
+  const types = {
+    CiphertextVerification: [
+      { name: 'ctHandles', type: 'bytes32[]' },
+      { name: 'userAddress', type: 'address' },
+      { name: 'contractAddress', type: 'address' },
+      { name: 'contractChainId', type: 'uint256' },
+      { name: 'extraData', type: 'bytes' },
+    ],
+  };
+  const message = { ctHandles: handles, userAddress: user, contractAddress: contract, contractChainId: SEPOLIA_NETWORK.chainId, extraData: EXTRA_DATA };
+  const signatures = await Promise.all(signers.map(signer => signer.signTypedData(domain, types, message)));
+  return ethers.hexlify(ethers.concat([
+    ethers.toBeHex(handles.length, 1),
+    ethers.toBeHex(signatures.length, 1),
+    ...handles,
+    ...signatures,
+    EXTRA_DATA,
+  ]));
+}
+
+async function signDecryption(signers: ethers.Signer[], handles: string[], abiEncodedClearValues: string): Promise<string> {
+  const domain = {
+    name: 'Decryption',
+    version: '1',
+    chainId: SEPOLIA_NETWORK.gatewayChainId,
+    verifyingContract: SEPOLIA_NETWORK.verifyingContractAddressDecryption,
+  };
+  const types = {
+    PublicDecryptVerification: [
+      { name: 'ctHandles', type: 'bytes32[]' },
+      { name: 'decryptedResult', type: 'bytes' },
+      { name: 'extraData', type: 'bytes' },
+    ],
+  };
+  const message = { ctHandles: handles, decryptedResult: abiEncodedClearValues, extraData: EXTRA_DATA };
+  const signatures = await Promise.all(signers.map(signer => signer.signTypedData(domain, types, message)));
+  return ethers.hexlify(ethers.concat([ethers.toBeHex(signatures.length, 1), ...signatures, EXTRA_DATA]));
+}
+
+const coprocessors = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom()];
+const kms = [ethers.Wallet.createRandom(), ethers.Wallet.createRandom(), ethers.Wallet.createRandom()];
+
+describe('parseInputProof', () => {
+  it('splits handles, signatures and extra data', async () => {
+    const handles = [handle(0), handle(1)];
+    const proof = parseInputProof(await signInput(coprocessors, handles));
+
+    expect(proof.handles).toEqual(handles);
+    expect(proof.signatures).toHaveLength(2);
+    expect(proof.extraData).toBe(EXTRA_DATA);
+    expect(recoverCoprocessorSigners(SEPOLIA_NETWORK, proof, CONTRACT, USER)).toEqual(coprocessors.map(signer => signer.address));
+  });
+
+  it('rejects truncated and empty proofs', () => {
+    expect(() => parseInputProof('0x01')).toThrow(InvalidInputProofError);
+    expect(() => parseInputProof('0x0000')).toThrow('0 handles and 0 signatures declared in 2 bytes');
+    expect(() => parseInputProof(ethers.concat(['0x0201', handle(0), handle(1)]))).toThrow('2 handles and 1 signatures declared in 66 bytes');
+  });
+});
+
+describe('parseDecryptionProof', () => {
+  it('splits signatures and extra data', async () => {
+    const handles = [handle(0)];
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(['uint32'], [9]);
+    const proof = await signDecryption(kms, handles, encoded);
+
+    expect(parseDecryptionProof(proof)).toMatchObject({ extraData: EXTRA_DATA });
+    expect(parseDecryptionProof(proof).signatures).toHaveLength(3);
+    expect(recoverKmsSigners(SEPOLIA_NETWORK, handles, encoded, proof)).toEqual(kms.map(signer => signer.address));
+  });
+
+  it('rejects empty and truncated proofs', () => {
+    expect(() => parseDecryptionProof('0x')).toThrow(InvalidDecryptionProofError);
+    expect(() => parseDecryptionProof(ethers.hexlify(new Uint8Array([2, ...new Uint8Array(65)])))).toThrow(
+      'declares 2 signatures but is only 66 bytes'
+    );
+  });
+});
+
+describe('verifyInputProof', () => {
+  const options = { instance: sepoliaInstance, coprocessorSigners: coprocessors.map(signer => signer.address), threshold: 2 };
+
+  it('accepts a proof signed by enough coprocessors for this contract and user', async () => {
+    const handles = [handle(0)];
+    await expect(verifyInputProof(handles, await signInput(coprocessors, handles), CONTRACT, USER, options)).resolves.toBe(true);
+  });
+
+  it('rejects a proof issued for another contract', async () => {
+    const handles = [handle(0)];
+    const proof = await signInput(coprocessors, handles, USER);
+    await expect(verifyInputProof(handles, proof, CONTRACT, USER, options)).rejects.toThrow('0 of 2 coprocessor signatures');
+  });
+
+  it('rejects handles the proof does not cover or from another chain', async () => {
+    const proof = await signInput(coprocessors, [handle(0)]);
+    await expect(verifyInputProof([handle(1)], proof, CONTRACT, USER, options)).rejects.toThrow('is not covered by the input proof');
+
+    const foreign = [handle(0, 31337)];
+    await expect(verifyInputProof(foreign, await signInput(coprocessors, foreign), CONTRACT, USER, options)).rejects.toThrow(
+      'belongs to chain 31337'
+    );
+  });
+});
+
+describe('verifyDecryptionProof (local)', () => {
+  const handles = [handle(0)];
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(['uint32'], [9]);
+  const options = { instance: sepoliaInstance, method: 'local' as const, kmsSigners: kms.map(signer => signer.address), threshold: 2 };
+
+  it('accepts a proof that reaches the threshold', async () => {
+    const proof = await signDecryption(kms.slice(0, 2), handles, encoded);
+    await expect(verifyDecryptionProof(handles, encoded, proof, options)).resolves.toBe(true);
+  });
+
+  it('rejects a proof below the threshold or signed by an unknown key', async () => {
+    await expect(verifyDecryptionProof(handles, encoded, await signDecryption(kms.slice(0, 1), handles, encoded), options))
+      .rejects.toThrow('1 valid KMS signatures, 2 required');
+    await expect(verifyDecryptionProof(handles, encoded, await signDecryption([coprocessors[0]], handles, encoded), options))
+      .rejects.toThrow('which is not a KMS signer');
+  });
+
+  it('rejects cleartexts that differ from the signed ones', async () => {
+    const proof = await signDecryption(kms, handles, encoded);
+    const tampered = ethers.AbiCoder.defaultAbiCoder().encode(['uint32'], [10]);
+    await expect(verifyDecryptionProof(handles, tampered, proof, options)).rejects.toThrow(InvalidDecryptionProofError);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * FHEVM Proof Pre-flight - Universal SDK
+ * Checks KMS decryption proofs and coprocessor input proofs before they are sent
+ * on-chain, so a proof the host contracts would reject never costs a signature or gas
+ */
+
+import { ethers } from 'ethers';
+import { InvalidDecryptionProofError, InvalidInputProofError } from './errors.js';
+import { getRpcProvider } from './networks.js';
+import type { FhevmNetworkConfig } from './networks.js';
+import { chainIdOf, networkOf, resolveFheInstance } from './registry.js';
+import { parseHandle } from './handles.js';
+import type { ParsedHandle } from './handles.js';
+import { MockFheInstance } from './mock.js';
+import { sdkLogger } from './logger.js';
+import type { FhevmCallOptions } from './types.js';
+
+/**
+ * IKMSVerifier typechain interface (types/@fhevm/solidity/lib/fhe.sol/IKMSVerifier.ts),
+ * plus the signer set getters of the deployed KMSVerifier and its signature errors
+ */
+export const KMS_VERIFIER_ABI = [
+  'function verifyDecryptionEIP712KMSSignatures(bytes32[] handlesList, bytes decryptedResult, bytes decryptionProof) returns (bool)',
+  'function getKmsSigners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+  'error KMSInvalidSigner(address invalidSigner)',
+  'error KMSSignatureThresholdNotReached(uint256 numSignatures)',
+  'error KMSZeroSignature()',
+  'error DeserializingDecryptionProofFail()',
+];
+
+interface KmsVerifierContract {
+  verifyDecryptionEIP712KMSSignatures: ethers.BaseContractMethod<[string[], string, string], boolean, boolean>;
+  getKmsSigners(): Promise<string[]>;
+  getThreshold(): Promise<bigint>;
+  interface: ethers.Interface;
+}
+
+/**
+ * Typed data the KMS signs for a public decryption, checked by the KMSVerifier
+ */
+const PUBLIC_DECRYPT_TYPES = {
+  PublicDecryptVerification: [
+    { name: 'ctHandles', type: 'bytes32[]' },
+    { name: 'decryptedResult', type: 'bytes' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+const SIGNATURE_LENGTH = 65;
+
+export interface DecryptionProofCheckOptions extends FhevmCallOptions {
+  /**
+   * `eth_call` (default) asks the KMSVerifier contract; `local` recovers the signers
+   * in process and compares them with the KMS signer set
+   */
+  method?: 'eth_call' | 'local';
+  /** Provider for the host chain; defaults to the RPC endpoint the instance was created with */
+  runner?: ethers.ContractRunner;
+  /** KMS signer set for `local`; read from the KMSVerifier when omitted */
+  kmsSigners?: string[];
+  /** Signatures needed for `local`; read from the KMSVerifier when omitted */
+  threshold?: number;
+}
+
+/**
+ * Split a decryption proof into its signatures and extra data:
+ * `numSigners (1 byte) | signatures (65 bytes each) | extraData`
+ */
+export function parseDecryptionProof(decryptionProof: string): { signatures: string[]; extraData: string } {
+  const bytes = ethers.getBytes(decryptionProof);
+  if (bytes.length === 0) {
+    throw new InvalidDecryptionProofError('Decryption proof is empty');
+  }
+  const count = bytes[0];
+  const end = 1 + count * SIGNATURE_LENGTH;
+  if (bytes.length < end) {
+    throw new InvalidDecryptionProofError(`Decryption proof declares ${count} signatures but is only ${bytes.length} bytes`);
+  }
+
+  const signatures: string[] = [];
+  for (let offset = 1; offset < end; offset += SIGNATURE_LENGTH) {
+    signatures.push(ethers.hexlify(bytes.slice(offset, offset + SIGNATURE_LENGTH)));
+  }
+  return { signatures, extraData: ethers.hexlify(bytes.slice(end)) };
+}
+
+/**
+ * Addresses that signed a public decryption proof, in proof order
+ */
+export function recoverKmsSigners(
+  network: FhevmNetworkConfig,
+  handles: string[],
+  abiEncodedClearValues: string,
+  decryptionProof: string
+): string[] {
+  const { signatures, extraData } = parseDecryptionProof(decryptionProof);
+  const domain = {
+    name: 'Decryption',
+    version: '1',
+    chainId: network.gatewayChainId,
+    verifyingContract: network.verifyingContractAddressDecryption,
+  };
+  const message = { ctHandles: handles, decryptedResult: abiEncodedClearValues, extraData };
+  return signatures.map(signature => ethers.verifyTypedData(domain, PUBLIC_DECRYPT_TYPES, message, signature));
+}
+
+async function checkLocally(
+  verifier: KmsVerifierContract,
+  network: FhevmNetworkConfig,
+  handles: string[],
+  abiEncodedClearValues: string,
+  decryptionProof: string,
+  options: DecryptionProofCheckOptions
+): Promise<void> {
+  const [kmsSigners, threshold] = await Promise.all([
+    options.kmsSigners ?? verifier.getKmsSigners(),
+    options.threshold ?? verifier.getThreshold().then(Number),
+  ]);
+  const known = new Set(kmsSigners.map(signer => signer.toLowerCase()));
+
+  const valid = new Set<string>();
+  for (const signer of recoverKmsSigners(network, handles, abiEncodedClearValues, decryptionProof)) {
+    if (!known.has(signer.toLowerCase())) {
+      throw new InvalidDecryptionProofError(`Decryption proof is signed by ${signer}, which is not a KMS signer`);
+    }
+    valid.add(signer.toLowerCase());
+  }
+  if (valid.size < threshold) {
+    throw new InvalidDecryptionProofError(`Decryption proof has ${valid.size} valid KMS signatures, ${threshold} required`);
+  }
+}
+
+async function checkWithCall(
+  verifier: KmsVerifierContract,
+  handles: string[],
+  abiEncodedClearValues: string,
+  decryptionProof: string
+): Promise<void> {
+  let valid: boolean;
+  try {
+    valid = await verifier.verifyDecryptionEIP712KMSSignatures.staticCall(handles, abiEncodedClearValues, decryptionProof);
+  } catch (error) {
+    // A revert is the verifier's answer; anything else means it could not be asked
+    if (!ethers.isError(error, 'CALL_EXCEPTION')) throw error;
+    const parsed = error.data ? verifier.interface.parseError(error.data) : null;
+    throw new InvalidDecryptionProofError(
+      `KMSVerifier rejected the decryption proof${parsed ? `: ${parsed.name}(${Array.from(parsed.args).join(', ')})` : ''}`,
+      error
+    );
+  }
+  if (!valid) {
+    throw new InvalidDecryptionProofError('KMSVerifier rejected the decryption proof');
+  }
+}
+
+/**
+ * Check that a public decryption proof carries enough valid KMS signatures over
+ * `handles` and `abiEncodedClearValues`. Throws InvalidDecryptionProofError when it
+ * does not. Resolves false when the check was skipped: the verifier could not be
+ * reached (logged as a warning), a mock instance or an unregistered network.
+ */
+export async function verifyDecryptionProof(
+  handles: string[],
+  abiEncodedClearValues: string,
+  decryptionProof: string,
+  options: DecryptionProofCheckOptions = {}
+): Promise<boolean> {
+  const fhe = resolveFheInstance(options.instance);
+  if (fhe instanceof MockFheInstance) return false;
+
+  const network = networkOf(fhe);
+  if (!network) {
+    sdkLogger.debug(`No network config for chain ${chainIdOf(fhe)}, skipping decryption proof check`);
+    return false;
+  }
+
+  const verifier = new ethers.Contract(
+    network.kmsContractAddress,
+    KMS_VERIFIER_ABI,
+    options.runner ?? getRpcProvider(network)
+  ) as unknown as KmsVerifierContract;
+
+  try {
+    if (options.method === 'local') {
+      await checkLocally(verifier, network, handles, abiEncodedClearValues, decryptionProof, options);
+    } else {
+      await checkWithCall(verifier, handles, abiEncodedClearValues, decryptionProof);
+    }
+    return true;
+  } catch (error) {
+    if (error instanceof InvalidDecryptionProofError) throw error;
+    sdkLogger.warn('Decryption proof check failed, continuing without it', error);
+    return false;
+  }
+}
+
+/**
+ * Coprocessor signer set of the InputVerifier. The IInputVerifier typechain interface
+ * (types/@fhevm/solidity/lib/impl.sol/IInputVerifier.ts) only exposes cleanTransientStorage.
+ */
+export const INPUT_VERIFIER_ABI = [
+  'function getCoprocessorSigners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+];
+
+interface InputVerifierContract {
+  getCoprocessorSigners(): Promise<string[]>;
+  getThreshold(): Promise<bigint>;
+}
+
+/**
+ * Typed data the coprocessors sign for an input proof; it binds the handles to
+ * one contract, one user and one host chain
+ */
+const INPUT_VERIFICATION_TYPES = {
+  CiphertextVerification: [
+    { name: 'ctHandles', type: 'bytes32[]' },
+    { name: 'userAddress', type: 'address' },
+    { name: 'contractAddress', type: 'address' },
+    { name: 'contractChainId', type: 'uint256' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+export interface ParsedInputProof {
+  handles: string[];
+  signatures: string[];
+  extraData: string;
+}
+
+/**
+ * Split an input proof: `numHandles (1) | numSigners (1) | handles (32 each) | signatures (65 each) | extraData`
+ */
+export function parseInputProof(inputProof: ethers.BytesLike): ParsedInputProof {
+  const bytes = ethers.getBytes(inputProof);
+  if (bytes.length < 2) {
+    throw new InvalidInputProofError(`Input proof is too short (${bytes.length} bytes)`);
+  }
+  const [handleCount, signatureCount] = bytes;
+  const signaturesStart = 2 + handleCount * 32;
+  const end = signaturesStart + signatureCount * SIGNATURE_LENGTH;
+  if (handleCount === 0 || bytes.length < end) {
+    throw new InvalidInputProofError(
+      `Malformed input proof: ${handleCount} handles and ${signatureCount} signatures declared in ${bytes.length} bytes`
+    );
+  }
+
+  const handles: string[] = [];
+  for (let offset = 2; offset < signaturesStart; offset += 32) {
+    handles.push(ethers.hexlify(bytes.slice(offset, offset + 32)));
+  }
+  const signatures: string[] = [];
+  for (let offset = signaturesStart; offset < end; offset += SIGNATURE_LENGTH) {
+    signatures.push(ethers.hexlify(bytes.slice(offset, offset + SIGNATURE_LENGTH)));
+  }
+  return { handles, signatures, extraData: ethers.hexlify(bytes.slice(end)) };
+}
+
+/**
+ * Addresses that signed an input proof for this contract, user and chain, in proof order.
+ * A proof issued for anything else recovers to unrelated addresses.
+ */
+export function recoverCoprocessorSigners(
+  network: FhevmNetworkConfig,
+  proof: ParsedInputProof,
+  contractAddress: string,
+  userAddress: string
+): string[] {
+  const domain = {
+    name: 'InputVerification',
+    version: '1',
+    chainId: network.gatewayChainId,
+    verifyingContract: network.verifyingContractAddressInputVerification,
+  };
+  const message = {
+    ctHandles: proof.handles,
+    userAddress,
+    contractAddress,
+    contractChainId: network.chainId,
+    extraData: proof.extraData,
+  };
+  return proof.signatures.map(signature => ethers.verifyTypedData(domain, INPUT_VERIFICATION_TYPES, message, signature));
+}
+
+export interface InputProofCheckOptions extends FhevmCallOptions {
+  /** Provider for the host chain; defaults to the RPC endpoint the instance was created with */
+  runner?: ethers.ContractRunner;
+  /** Coprocessor signer set; read from the InputVerifier when omitted */
+  coprocessorSigners?: string[];
+  /** Signatures needed; read from the InputVerifier when omitted */
+  threshold?: number;
+}
+
+/**
+ * Check an input proof before it is used in a transaction: it must be well formed, cover
+ * `handles`, belong to the instance's chain and carry enough coprocessor signatures for
+ * `contractAddress` and `userAddress`. The signatures are recovered locally and compared
+ * with the on-chain signer set and threshold of the InputVerifier, read with eth_call
+ * through `runner` (the instance's RPC endpoint by default). Throws InvalidInputProofError
+ * otherwise. Resolves false when the signatures were not checked: the InputVerifier could
+ * not be reached (logged as a warning), a mock instance or an unregistered network.
+ */
+export async function verifyInputProof(
+  handles: ethers.BytesLike[],
+  inputProof: ethers.BytesLike,
+  contractAddress: string,
+  userAddress: string,
+  options: InputProofCheckOptions = {}
+): Promise<boolean> {
+  const fhe = resolveFheInstance(options.instance);
+  const chainId = chainIdOf(fhe);
+  const proof = parseInputProof(inputProof);
+
+  const covered = new Set(proof.handles.map(handle => handle.toLowerCase()));
+  for (const handle of handles.map(handle => ethers.hexlify(handle))) {
+    if (!covered.has(handle.toLowerCase())) {
+      throw new InvalidInputProofError(`Handle ${handle} is not covered by the input proof`);
+    }
+  }
+  for (const handle of proof.handles) {
+    let parsed: ParsedHandle;
+    try {
+      parsed = parseHandle(handle);
+    } catch (error) {
+      throw new InvalidInputProofError(`Input proof contains an invalid handle ${handle}`, error);
+    }
+    if (parsed.chainId !== chainId) {
+      throw new InvalidInputProofError(`Input proof handle ${handle} belongs to chain ${parsed.chainId}, expected chain ${chainId}`);
+    }
+  }
+
+  if (fhe instanceof MockFheInstance) return false;
+  const network = networkOf(fhe);
+  if (!network) {
+    sdkLogger.debug(`No network config for chain ${chainId}, skipping input proof signature check`);
+    return false;
+  }
+
+  try {
+    const verifier = new ethers.Contract(
+      network.inputVerifierContractAddress,
+      INPUT_VERIFIER_ABI,
+      options.runner ?? getRpcProvider(network)
+    ) as unknown as InputVerifierContract;
+    const [signers, threshold] = await Promise.all([
+      options.coprocessorSigners ?? verifier.getCoprocessorSigners(),
+      options.threshold ?? verifier.getThreshold().then(Number),
+    ]);
+    const known = new Set(signers.map(signer => signer.toLowerCase()));
+
+    const valid = new Set(
+      recoverCoprocessorSigners(network, proof, contractAddress, userAddress)
+        .map(signer => signer.toLowerCase())
+        .filter(signer => known.has(signer))
+    );
+    if (valid.size < threshold) {
+      throw new InvalidInputProofError(
+        `Input proof has ${valid.size} of ${threshold} coprocessor signatures for contract ${contractAddress}, ` +
+        `user ${userAddress} on chain ${chainId}; it was issued for another contract, user or chain`
+      );
+    }
+    return true;
+  } catch (error) {
+    if (error instanceof InvalidInputProofError) throw error;
+    sdkLogger.warn('Input proof check failed, continuing without it', error);
+    return false;
+  }
+}
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  chainIdOf,
+  disposeAllFheInstances,
+  disposeFheInstance,
+  getFheInstance,
+  networkOf,
+  registerFheInstance,
+  resolveFheInstance,
+} from './registry.js';
+import { FhevmError, FhevmNotInitializedError } from './errors.js';
+import { MockFheInstance } from './mock.js';
+import { SEPOLIA_NETWORK } from './networks.js';
+import type { FhevmInstance } from './types.js';
+
+// The registry never calls into instances
+const instance = () => ({}) as FhevmInstance;
+
+describe('instance registry', () => {
+  afterEach(() => disposeAllFheInstances());
+
+  it('keeps one instance per chain and relayer and prefers the latest for a chain', () => {
+    const a = instance();
+    const b = instance();
+    registerFheInstance(11155111, a, 'https://relayer-a.example');
+    registerFheInstance(11155111, b, 'https://relayer-b.example');
+
+    expect(getFheInstance(11155111, 'https://relayer-a.example')).toBe(a);
+    expect(getFheInstance(11155111)).toBe(b);
+    expect(getFheInstance()).toBe(b);
+
+    expect(disposeFheInstance(11155111, 'https://relayer-b.example')).toBe(true);
+    expect(getFheInstance()).toBe(a);
+  });
+
+  it('resolves chain ids to instances and throws for uninitialized chains', () => {
+    const a = instance();
+    registerFheInstance(31337, a);
+
+    expect(resolveFheInstance(31337)).toBe(a);
+    expect(() => resolveFheInstance(1)).toThrow(FhevmNotInitializedError);
+  });
+
+  it('reads the chain id recorded at registration, or the network of an in-memory mock', () => {
+    const sepolia = instance();
+    registerFheInstance(SEPOLIA_NETWORK.chainId, sepolia);
+
+    expect(chainIdOf(sepolia)).toBe(SEPOLIA_NETWORK.chainId);
+    expect(networkOf(sepolia)).toMatchObject({ chainId: SEPOLIA_NETWORK.chainId });
+    expect(chainIdOf(new MockFheInstance())).toBe(31337);
+  });
+
+  it('throws a clear error for an instance it never registered', () => {
+    expect(() => chainIdOf(instance())).toThrow(FhevmError);
+    expect(() => chainIdOf(instance())).toThrow('register it with registerFheInstance(chainId, instance)');
+  });
+});
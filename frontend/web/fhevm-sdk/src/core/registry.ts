@@ -0,0 +1,148 @@
+/**
+ * FHEVM Instance Registry - Universal SDK
+ * Keeps one instance per (chainId, relayer URL) so several networks can run side by side
+ */
+
+import { FhevmError, FhevmNotInitializedError } from './errors.js';
+import { MockFheInstance } from './mock.js';
+import { getNetworkConfig } from './networks.js';
+import type { FhevmNetworkConfig } from './networks.js';
+import type { FhevmInstance, FhevmInstanceTarget } from './types.js';
+
+export interface FhevmInstanceEntry {
+  chainId: number;
+  relayerUrl?: string;
+  instance: FhevmInstance;
+  /** Network config the instance was created with, RPC override included */
+  network?: FhevmNetworkConfig;
+}
+
+const instances = new Map<string, FhevmInstanceEntry>();
+let lastKey: string | null = null;
+
+function instanceKey(chainId: number, relayerUrl?: string): string {
+  return `${chainId}:${relayerUrl ?? ''}`;
+}
+
+function findEntry(chainId: number, relayerUrl?: string): [string, FhevmInstanceEntry] | undefined {
+  if (relayerUrl !== undefined) {
+    const key = instanceKey(chainId, relayerUrl);
+    const entry = instances.get(key);
+    return entry ? [key, entry] : undefined;
+  }
+  // No relayer given: prefer the most recently initialized instance for this chain
+  if (lastKey && instances.get(lastKey)?.chainId === chainId) {
+    return [lastKey, instances.get(lastKey)!];
+  }
+  for (const [key, entry] of instances) {
+    if (entry.chainId === chainId) return [key, entry];
+  }
+  return undefined;
+}
+
+/**
+ * Register an initialized instance; replaces any instance with the same key
+ */
+export function registerFheInstance(
+  chainId: number,
+  instance: FhevmInstance,
+  relayerUrl?: string,
+  network?: FhevmNetworkConfig
+): void {
+  const key = instanceKey(chainId, relayerUrl);
+  instances.set(key, { chainId, relayerUrl, instance, network });
+  lastKey = key;
+}
+
+/**
+ * Get the instance for a chain (and optionally a relayer).
+ * Without arguments, returns the most recently initialized instance.
+ */
+export function getFheInstance(chainId?: number, relayerUrl?: string): FhevmInstance | null {
+  if (chainId === undefined) {
+    return lastKey ? instances.get(lastKey)?.instance ?? null : null;
+  }
+  return findEntry(chainId, relayerUrl)?.[1].instance ?? null;
+}
+
+/**
+ * List every registered instance
+ */
+export function listFheInstances(): FhevmInstanceEntry[] {
+  return Array.from(instances.values());
+}
+
+/**
+ * Remove the instance for a chain (and optionally a relayer) from the registry
+ */
+export function disposeFheInstance(chainId: number, relayerUrl?: string): boolean {
+  const found = findEntry(chainId, relayerUrl);
+  if (!found) return false;
+
+  instances.delete(found[0]);
+  if (lastKey === found[0]) {
+    const remaining = Array.from(instances.keys());
+    lastKey = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+  }
+  return true;
+}
+
+/**
+ * Remove every registered instance
+ */
+export function disposeAllFheInstances(): void {
+  instances.clear();
+  lastKey = null;
+}
+
+/**
+ * Host chain id of an instance, as recorded when it was registered (an in-memory mock
+ * carries its own network). Throws FhevmError for an instance the registry never saw.
+ */
+export function chainIdOf(instance: FhevmInstance): number {
+  for (const entry of instances.values()) {
+    if (entry.instance === instance) return entry.chainId;
+  }
+  if (instance instanceof MockFheInstance) return instance.network.chainId;
+  throw new FhevmError(
+    'Unknown chain for this FHE instance: create it with initializeFheInstance() or register it with registerFheInstance(chainId, instance)'
+  );
+}
+
+/**
+ * Relayer URL an instance was registered with (a `mock:` key for mock instances),
+ * or undefined for an unregistered instance
+ */
+export function relayerUrlOf(instance: FhevmInstance): string | undefined {
+  for (const entry of instances.values()) {
+    if (entry.instance === instance) return entry.relayerUrl;
+  }
+  return undefined;
+}
+
+/**
+ * Network config an instance was created with (so its RPC endpoint is the one the
+ * instance talks to), else the registered config of its chain, or null for an unregistered chain
+ */
+export function networkOf(instance: FhevmInstance): FhevmNetworkConfig | null {
+  for (const entry of instances.values()) {
+    if (entry.instance === instance && entry.network) return entry.network;
+  }
+  return getNetworkConfig(chainIdOf(instance));
+}
+
+/**
+ * Resolve an instance or chain id to a registered instance.
+ * Throws FhevmNotInitializedError if nothing is initialized for the target.
+ */
+export function resolveFheInstance(target?: FhevmInstanceTarget): FhevmInstance {
+  if (target !== undefined && typeof target !== 'number') {
+    return target;
+  }
+
+  const fhe = getFheInstance(target);
+  if (!fhe) {
+    throw new FhevmNotInitializedError(target);
+  }
+  return fhe;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { GAS_LIMIT_HEADROOM_PERCENT, suggestFees, withGasHeadroom } from './simulation.js';
+import { createFhevmContract } from './contracts.js';
+import { ContractRevertError, FHEVM_LIBRARY_ERRORS_ABI } from './errors.js';
+
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+const ABI: ethers.JsonFragment[] = [
+  {
+    type: 'function',
+    name: 'setScore',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'score', type: 'uint32', internalType: 'uint32' }],
+    outputs: [{ name: '', type: 'bool', internalType: 'bool' }],
+  },
+];
+
+const EIP1559: Partial<ethers.FeeData> = { gasPrice: 10n, maxFeePerGas: 30n, maxPriorityFeePerGas: 2n };
+
+/**
+ * Provider stub: `call` answers or throws, gas and fee data are fixed
+ */
+function provider(call: () => Promise<string>, feeData: Partial<ethers.FeeData> = EIP1559) {
+  return {
+    call: vi.fn(call),
+    estimateGas: vi.fn(async () => 100_001n),
+    getFeeData: vi.fn(async () => feeData),
+    getNetwork: async () => new ethers.Network('stub', 31337n),
+  } as unknown as ethers.Provider;
+}
+
+describe('withGasHeadroom', () => {
+  it('adds 20% and rounds down', () => {
+    expect(GAS_LIMIT_HEADROOM_PERCENT).toBe(20n);
+    expect(withGasHeadroom(100_000n)).toBe(120_000n);
+    expect(withGasHeadroom(100_001n)).toBe(120_001n);
+    expect(withGasHeadroom(4n)).toBe(4n);
+  });
+});
+
+describe('suggestFees', () => {
+  it('bounds the cost by the max fee on EIP-1559 chains', async () => {
+    const runner = { provider: provider(async () => '0x') };
+    expect(await suggestFees(runner, 100n, 120n)).toEqual({
+      maxFeePerGas: 30n,
+      maxPriorityFeePerGas: 2n,
+      gasPrice: 10n,
+      estimatedCost: 1_000n,
+      maxCost: 3_600n,
+    });
+  });
+
+  it('bounds the cost by the gas price on legacy chains', async () => {
+    const runner = { provider: provider(async () => '0x', { gasPrice: 5n, maxFeePerGas: null, maxPriorityFeePerGas: null }) };
+    expect(await suggestFees(runner, 100n, 120n)).toMatchObject({ maxFeePerGas: null, estimatedCost: 500n, maxCost: 600n });
+  });
+
+  it('returns no suggestion without fee data', async () => {
+    const runner = { provider: { getFeeData: async () => { throw new Error('unsupported'); } } as unknown as ethers.Provider };
+    expect(await suggestFees(runner, 100n, 120n)).toEqual({
+      maxFeePerGas: null,
+      maxPriorityFeePerGas: null,
+      gasPrice: null,
+      estimatedCost: null,
+      maxCost: null,
+    });
+    expect(await suggestFees(null, 100n, 120n)).toMatchObject({ maxCost: null });
+  });
+});
+
+describe('FhevmContract.simulate', () => {
+  it('returns the call result, the gas limit with headroom and the fees', async () => {
+    const stub = provider(async () => ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true]));
+    const contract = createFhevmContract(ADDRESS, ABI, ethers.Wallet.createRandom().connect(stub));
+
+    const prepared = await contract.simulate('setScore', [7]);
+    expect(prepared).toMatchObject({ method: 'setScore', gasEstimate: 100_001n, gasLimit: 120_001n, fees: { maxCost: 3_600_030n } });
+    expect(prepared.result).toBe(true);
+    expect(prepared.transaction).toMatchObject({ to: ADDRESS, gasLimit: 120_001n });
+  });
+
+  it('keeps a gas limit override', async () => {
+    const stub = provider(async () => ethers.AbiCoder.defaultAbiCoder().encode(['bool'], [true]));
+    const contract = createFhevmContract(ADDRESS, ABI, ethers.Wallet.createRandom().connect(stub));
+
+    expect(await contract.simulate('setScore', [7, { gasLimit: 500_000 }])).toMatchObject({ gasLimit: 500_000n });
+  });
+
+  it('decodes a revert during simulation', async () => {
+    const data = new ethers.Interface(FHEVM_LIBRARY_ERRORS_ABI).encodeErrorResult('InvalidKMSSignatures', []);
+    const stub = provider(async () => {
+      throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call', data, reason: null, transaction: { to: ADDRESS, data: '0x' }, invocation: null, revert: null,
+      });
+    });
+    const contract = createFhevmContract(ADDRESS, ABI, ethers.Wallet.createRandom().connect(stub));
+
+    const error = await contract.simulate('setScore', [7]).catch(cause => cause);
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({ errorName: 'InvalidKMSSignatures', reason: 'InvalidKMSSignatures()' });
+    expect(stub.estimateGas).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * FHEVM Transaction Simulation - Universal SDK
+ * Gas and fee preview of a simulated contract call, shown before the user signs
+ */
+
+import { ethers } from 'ethers';
+import { sdkLogger } from './logger.js';
+
+/**
+ * Headroom added to the gas estimate; FHE operations make gas depend on
+ * coprocessor state that can change between estimation and inclusion
+ */
+export const GAS_LIMIT_HEADROOM_PERCENT = 20n;
+
+export interface FeeSuggestion {
+  /** Set on EIP-1559 chains */
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  /** Current gas price, also reported by most EIP-1559 chains */
+  gasPrice: bigint | null;
+  /** Likely cost in wei: gas estimate × gas price */
+  estimatedCost: bigint | null;
+  /** Upper bound in wei: gas limit × max fee per gas */
+  maxCost: bigint | null;
+}
+
+/**
+ * A call that passed `staticCall` and `estimateGas`, ready to send
+ */
+export interface PreparedTransaction {
+  method: string;
+  /** Populated transaction (to, data, value) as it will be sent */
+  transaction: ethers.ContractTransaction;
+  /** Return value of the simulated call */
+  result: any;
+  gasEstimate: bigint;
+  /** Gas limit the transaction is sent with: the caller's override, else the estimate plus headroom */
+  gasLimit: bigint;
+  fees: FeeSuggestion;
+  /** Send the simulated call with the same arguments; encrypted inputs are not encrypted again */
+  send(): Promise<ethers.ContractTransactionResponse>;
+}
+
+export function withGasHeadroom(gasEstimate: bigint): bigint {
+  return gasEstimate + (gasEstimate * GAS_LIMIT_HEADROOM_PERCENT) / 100n;
+}
+
+/**
+ * Fee suggestion from the runner's provider; all fields are null when no fee data is available
+ */
+export async function suggestFees(
+  runner: ethers.ContractRunner | null,
+  gasEstimate: bigint,
+  gasLimit: bigint
+): Promise<FeeSuggestion> {
+  let feeData: ethers.FeeData | null = null;
+  try {
+    feeData = (await runner?.provider?.getFeeData()) ?? null;
+  } catch (error) {
+    sdkLogger.warn('Fee data unavailable, sending without a fee suggestion', error);
+  }
+
+  const maxFeePerGas = feeData?.maxFeePerGas ?? null;
+  const gasPrice = feeData?.gasPrice ?? null;
+  const priceCap = maxFeePerGas ?? gasPrice;
+  return {
+    maxFeePerGas,
+    maxPriorityFeePerGas: feeData?.maxPriorityFeePerGas ?? null,
+    gasPrice,
+    estimatedCost: gasPrice !== null ? gasEstimate * gasPrice : null,
+    maxCost: priceCap !== null ? gasLimit * priceCap : null,
+  };
+}
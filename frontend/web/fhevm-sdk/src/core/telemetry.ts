@@ -0,0 +1,60 @@
+/**
+ * FHEVM Telemetry - Universal SDK
+ * Optional callbacks reporting duration and outcome of initialization,
+ * encryption and decryption, e.g. to chart relayer latency in production
+ */
+
+import { sdkLogger } from './logger.js';
+
+interface TelemetryEventBase {
+  durationMs: number;
+  success: boolean;
+  /** Classified error (see errors.ts) when `success` is false */
+  error?: unknown;
+}
+
+export interface InitTelemetryEvent extends TelemetryEventBase {
+  mode: 'browser' | 'node' | 'mock';
+  chainId: number;
+}
+
+export interface EncryptTelemetryEvent extends TelemetryEventBase {
+  /** Relayer attempts, including retries */
+  attempts: number;
+}
+
+export interface DecryptTelemetryEvent extends TelemetryEventBase {
+  kind: 'user' | 'public';
+  attempts: number;
+}
+
+export interface FhevmTelemetry {
+  onInit?(event: InitTelemetryEvent): void;
+  onEncrypt?(event: EncryptTelemetryEvent): void;
+  onDecrypt?(event: DecryptTelemetryEvent): void;
+}
+
+let telemetry: FhevmTelemetry = {};
+
+/**
+ * Install telemetry callbacks; pass `null` to remove them
+ */
+export function setTelemetry(callbacks: FhevmTelemetry | null): void {
+  telemetry = callbacks ?? {};
+}
+
+/**
+ * Invoke one callback; a throwing callback never breaks the SDK call it reports on
+ */
+export function reportTelemetry<K extends keyof FhevmTelemetry>(
+  name: K,
+  event: Parameters<NonNullable<FhevmTelemetry[K]>>[0]
+): void {
+  const callback = telemetry[name] as ((event: unknown) => void) | undefined;
+  if (!callback) return;
+  try {
+    callback(event);
+  } catch (error) {
+    sdkLogger.warn(`Telemetry callback ${name} threw`, error);
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ethers } from 'ethers';
+import { TransactionManager } from './transactions.js';
+import { FhevmAbortedError } from './errors.js';
+
+const FROM = '0x2222222222222222222222222222222222222222';
+
+function response(nonce: number): ethers.TransactionResponse {
+  return {
+    hash: ethers.id(`tx-${nonce}-${Math.random()}`),
+    chainId: 31337n,
+    from: FROM,
+    nonce,
+    to: '0x1111111111111111111111111111111111111111',
+    data: '0x',
+    value: 0n,
+    gasLimit: 21000n,
+    gasPrice: null,
+    maxFeePerGas: 2n,
+    maxPriorityFeePerGas: 1n,
+  } as unknown as ethers.TransactionResponse;
+}
+
+/**
+ * Provider stub: `receipts` maps a hash to the block it was mined in
+ */
+function provider(receipts: Map<string, number>, blockNumber: number): ethers.Provider {
+  return {
+    getNetwork: async () => ({ chainId: 31337n }),
+    getBlockNumber: async () => blockNumber,
+    getTransactionReceipt: async (hash: string) => receipts.has(hash) ? { blockNumber: receipts.get(hash), status: 1 } : null,
+    getTransactionCount: async () => 0,
+    getTransaction: async () => ({}),
+  } as unknown as ethers.Provider;
+}
+
+describe('TransactionManager', () => {
+  it('reports mined before confirmed when the first receipt already has enough confirmations', async () => {
+    const receipts = new Map<string, number>();
+    const manager = new TransactionManager(provider(receipts, 10), { pollIntervalMs: 5 });
+    const statuses: string[] = [];
+    manager.onChange(tx => statuses.push(tx.status));
+
+    const tx = await manager.track(response(0));
+    receipts.set(tx.hash, 10);
+
+    await expect(manager.wait(tx.hash)).resolves.toMatchObject({ status: 'confirmed', confirmations: 1, blockNumber: 10 });
+    expect(statuses).toEqual(['submitted', 'mined', 'confirmed']);
+    manager.dispose();
+  });
+
+  it('stays mined until the requested confirmations are reached', async () => {
+    const receipts = new Map<string, number>();
+    const manager = new TransactionManager(provider(receipts, 10), { pollIntervalMs: 5, confirmations: 3 });
+    const tx = await manager.track(response(0));
+    receipts.set(tx.hash, 10);
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(manager.get(tx.hash)).toMatchObject({ status: 'mined', confirmations: 1 });
+    manager.dispose();
+  });
+
+  it('rejects pending waits when disposed', async () => {
+    const manager = new TransactionManager(provider(new Map(), 10), { pollIntervalMs: 60_000 });
+    const tx = await manager.track(response(1));
+
+    const waiting = manager.wait(tx.hash);
+    manager.dispose();
+    await expect(waiting).rejects.toBeInstanceOf(FhevmAbortedError);
+  });
+});
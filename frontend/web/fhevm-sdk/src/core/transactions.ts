@@ -0,0 +1,468 @@
+/**
+ * FHEVM Transaction Tracking - Universal SDK
+ * Follows submitted transactions through mining, confirmations, replacement and drops,
+ * speeds them up or cancels them by fee bump, and keeps pending ones across page reloads
+ */
+
+import { ethers } from 'ethers';
+import { classifyError, FhevmAbortedError } from './errors.js';
+import { sdkLogger } from './logger.js';
+
+/**
+ * `submitted` → `mined` → `confirmed` once enough blocks are on top. `replaced`, `dropped`
+ * and `failed` (reverted) also end tracking; a reorg can move `mined` back to `submitted`.
+ */
+export type TrackedTransactionStatus = 'submitted' | 'mined' | 'confirmed' | 'replaced' | 'dropped' | 'failed';
+
+/**
+ * How a transaction relates to the others tracked with the same sender and nonce
+ */
+export type TrackedTransactionKind = 'original' | 'speed-up' | 'cancel';
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  to: string | null;
+  data: string;
+  /** Amounts in wei as decimal strings, so records survive JSON storage */
+  value: string;
+  gasLimit: string;
+  gasPrice: string | null;
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  kind: TrackedTransactionKind;
+  /** Caller's description, e.g. for an activity list */
+  label?: string;
+  status: TrackedTransactionStatus;
+  /** Blocks since inclusion, counting the inclusion block */
+  confirmations: number;
+  blockNumber: number | null;
+  /** Hash that used the nonce instead, when it is one of ours */
+  replacedBy?: string;
+  /** Set with `replaced`: our speed-up or cancel won, or an unknown transaction took the nonce */
+  replacementReason?: 'repriced' | 'cancelled' | 'replaced';
+  submittedAt: number;
+  updatedAt: number;
+}
+
+export type TransactionListener = (tx: TrackedTransaction) => void;
+
+export interface TransactionManagerOptions {
+  /** Blocks to wait for before `confirmed`; defaults to 1 */
+  confirmations?: number;
+  /** Defaults to 4 s */
+  pollIntervalMs?: number;
+  /** A transaction unknown to the node, with its nonce unused, is `dropped` after this long; defaults to 5 minutes */
+  dropAfterMs?: number;
+  /** Fee increase of speed-up and cancel in percent; nodes require at least 10. Defaults to 15. */
+  feeBumpPercent?: number;
+}
+
+/**
+ * Storage backend for pending transactions. localStorage in browsers, memory elsewhere.
+ */
+export interface TransactionStore {
+  list(): Promise<TrackedTransaction[]>;
+  put(tx: TrackedTransaction): Promise<void>;
+  delete(hash: string): Promise<void>;
+}
+
+const STORAGE_KEY = 'fhevm-sdk:pending-transactions';
+const DEFAULT_POLL_INTERVAL_MS = 4_000;
+const DEFAULT_DROP_AFTER_MS = 5 * 60_000;
+const DEFAULT_FEE_BUMP_PERCENT = 15;
+const TRANSFER_GAS_LIMIT = 21_000n;
+
+class LocalStorageTransactionStore implements TransactionStore {
+  private read(): Record<string, TrackedTransaction> {
+    try {
+      return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private write(records: Record<string, TrackedTransaction>): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  }
+
+  async list() {
+    return Object.values(this.read());
+  }
+
+  async put(tx: TrackedTransaction) {
+    this.write({ ...this.read(), [tx.hash]: tx });
+  }
+
+  async delete(hash: string) {
+    const records = this.read();
+    delete records[hash];
+    this.write(records);
+  }
+}
+
+class MemoryTransactionStore implements TransactionStore {
+  private transactions = new Map<string, TrackedTransaction>();
+
+  async list() {
+    return Array.from(this.transactions.values());
+  }
+
+  async put(tx: TrackedTransaction) {
+    this.transactions.set(tx.hash, tx);
+  }
+
+  async delete(hash: string) {
+    this.transactions.delete(hash);
+  }
+}
+
+let transactionStore: TransactionStore | null = null;
+
+function getTransactionStore(): TransactionStore {
+  if (!transactionStore) {
+    transactionStore = typeof localStorage !== 'undefined' ? new LocalStorageTransactionStore() : new MemoryTransactionStore();
+  }
+  return transactionStore;
+}
+
+/**
+ * Replace the pending-transaction storage backend (e.g. IndexedDB, or memory in tests)
+ */
+export function setTransactionStore(store: TransactionStore): void {
+  transactionStore = store;
+}
+
+/**
+ * Whether tracking has ended for this transaction
+ */
+export function isTransactionSettled(tx: TrackedTransaction): boolean {
+  return tx.status !== 'submitted' && tx.status !== 'mined';
+}
+
+function toRecord(response: ethers.TransactionResponse, kind: TrackedTransactionKind, label?: string): TrackedTransaction {
+  const now = Date.now();
+  return {
+    hash: response.hash,
+    chainId: Number(response.chainId),
+    from: ethers.getAddress(response.from),
+    nonce: response.nonce,
+    to: response.to,
+    data: response.data,
+    value: response.value.toString(),
+    gasLimit: response.gasLimit.toString(),
+    gasPrice: response.gasPrice?.toString() ?? null,
+    maxFeePerGas: response.maxFeePerGas?.toString() ?? null,
+    maxPriorityFeePerGas: response.maxPriorityFeePerGas?.toString() ?? null,
+    kind,
+    label,
+    status: 'submitted',
+    confirmations: 0,
+    blockNumber: null,
+    submittedAt: now,
+    updatedAt: now,
+  };
+}
+
+export class TransactionManager {
+  private readonly transactions = new Map<string, TrackedTransaction>();
+  private readonly listeners = new Set<TransactionListener>();
+  private readonly waiters = new Map<string, { resolve: (tx: TrackedTransaction) => void; reject: (error: unknown) => void }[]>();
+  private readonly confirmations: number;
+  private readonly pollIntervalMs: number;
+  private readonly dropAfterMs: number;
+  private readonly feeBumpPercent: bigint;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(private readonly provider: ethers.Provider, options: TransactionManagerOptions = {}) {
+    this.confirmations = Math.max(1, options.confirmations ?? 1);
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.dropAfterMs = options.dropAfterMs ?? DEFAULT_DROP_AFTER_MS;
+    this.feeBumpPercent = BigInt(options.feeBumpPercent ?? DEFAULT_FEE_BUMP_PERCENT);
+  }
+
+  /**
+   * Pick up the pending transactions stored for the provider's chain, e.g. after a page reload
+   */
+  async resume(): Promise<TrackedTransaction[]> {
+    const { chainId } = await this.provider.getNetwork();
+    const stored = (await getTransactionStore().list()).filter(tx => tx.chainId === Number(chainId));
+    for (const tx of stored) {
+      if (!this.transactions.has(tx.hash)) this.transactions.set(tx.hash, tx);
+    }
+    if (stored.length > 0) {
+      sdkLogger.debug(`Resuming ${stored.length} pending transaction(s)`);
+      this.start();
+    }
+    return stored;
+  }
+
+  /**
+   * Start tracking a sent transaction
+   */
+  async track(response: ethers.TransactionResponse, label?: string): Promise<TrackedTransaction> {
+    return this.add(toRecord(response, 'original', label));
+  }
+
+  get(hash: string): TrackedTransaction | undefined {
+    return this.transactions.get(hash);
+  }
+
+  /**
+   * Every transaction tracked in this session or resumed, newest first
+   */
+  list(): TrackedTransaction[] {
+    return [...this.transactions.values()].sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  /**
+   * Subscribe to status and confirmation changes; returns an unsubscribe function
+   */
+  onChange(listener: TransactionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Resolve once tracking ends. A transaction repriced by a speed-up resolves with
+   * the one that was mined instead; a cancelled one resolves as `replaced`.
+   * Rejects with FhevmAbortedError when the manager is disposed first.
+   */
+  async wait(hash: string): Promise<TrackedTransaction> {
+    const tx = this.transactions.get(hash);
+    if (!tx) {
+      throw new Error(`Transaction ${hash} is not tracked`);
+    }
+    const settled = isTransactionSettled(tx)
+      ? tx
+      : await new Promise<TrackedTransaction>((resolve, reject) => {
+        this.waiters.set(hash, [...(this.waiters.get(hash) ?? []), { resolve, reject }]);
+      });
+
+    if (settled.replacementReason === 'repriced' && settled.replacedBy && this.transactions.has(settled.replacedBy)) {
+      return this.wait(settled.replacedBy);
+    }
+    return settled;
+  }
+
+  /**
+   * Send the same call with the same nonce and higher fees
+   */
+  async speedUp(hash: string, signer: ethers.Signer): Promise<TrackedTransaction> {
+    return this.replace(hash, signer, 'speed-up');
+  }
+
+  /**
+   * Replace the transaction with an empty transfer to the sender, same nonce and higher fees
+   */
+  async cancel(hash: string, signer: ethers.Signer): Promise<TrackedTransaction> {
+    return this.replace(hash, signer, 'cancel');
+  }
+
+  /**
+   * Stop polling and reject pending wait() calls; pending transactions stay stored for the next resume()
+   */
+  dispose(): void {
+    this.stop();
+    this.listeners.clear();
+    this.waiters.forEach(waiters => waiters.forEach(({ reject }) => reject(new FhevmAbortedError())));
+    this.waiters.clear();
+  }
+
+  private async replace(hash: string, signer: ethers.Signer, kind: 'speed-up' | 'cancel'): Promise<TrackedTransaction> {
+    const tx = this.transactions.get(hash);
+    if (!tx) {
+      throw new Error(`Transaction ${hash} is not tracked`);
+    }
+    if (tx.status !== 'submitted') {
+      throw new Error(`Transaction ${hash} is ${tx.status} and can no longer be replaced`);
+    }
+    if (ethers.getAddress(await signer.getAddress()) !== tx.from) {
+      throw new Error(`Transaction ${hash} was sent by ${tx.from}; connect that account to replace it`);
+    }
+
+    const request: ethers.TransactionRequest = kind === 'cancel'
+      ? { to: tx.from, value: 0n, data: '0x', gasLimit: TRANSFER_GAS_LIMIT }
+      : { to: tx.to, value: BigInt(tx.value), data: tx.data, gasLimit: BigInt(tx.gasLimit) };
+
+    let response: ethers.TransactionResponse;
+    try {
+      response = await signer.sendTransaction({
+        ...request,
+        ...(await this.bumpedFees(tx)),
+        nonce: tx.nonce,
+        chainId: tx.chainId,
+      });
+    } catch (error) {
+      throw classifyError(error);
+    }
+    sdkLogger.info(`Transaction ${hash} ${kind === 'cancel' ? 'cancelled' : 'sped up'} by ${response.hash}`);
+    return this.add(toRecord(response, kind, tx.label));
+  }
+
+  /**
+   * Previous fees raised by feeBumpPercent (rounded up, so small fees still rise),
+   * or the current network fees when higher
+   */
+  private async bumpedFees(tx: TrackedTransaction): Promise<Pick<ethers.TransactionRequest, 'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'>> {
+    const feeData = await this.provider.getFeeData();
+    const bump = (previous: string | null, current: bigint | null): bigint => {
+      const bumped = previous === null ? 0n : (BigInt(previous) * (100n + this.feeBumpPercent) + 99n) / 100n;
+      return current !== null && current > bumped ? current : bumped;
+    };
+
+    if (tx.maxFeePerGas === null) {
+      return { gasPrice: bump(tx.gasPrice, feeData.gasPrice) };
+    }
+    const maxFeePerGas = bump(tx.maxFeePerGas, feeData.maxFeePerGas);
+    const maxPriorityFeePerGas = bump(tx.maxPriorityFeePerGas, feeData.maxPriorityFeePerGas);
+    return { maxFeePerGas, maxPriorityFeePerGas: maxPriorityFeePerGas > maxFeePerGas ? maxFeePerGas : maxPriorityFeePerGas };
+  }
+
+  private async add(tx: TrackedTransaction): Promise<TrackedTransaction> {
+    this.transactions.set(tx.hash, tx);
+    await this.persist(tx);
+    this.emit(tx);
+    this.start();
+    return tx;
+  }
+
+  /**
+   * Other tracked transactions competing for the same nonce
+   */
+  private siblings(tx: TrackedTransaction): TrackedTransaction[] {
+    return [...this.transactions.values()].filter(other =>
+      other.hash !== tx.hash && other.from === tx.from && other.nonce === tx.nonce && other.chainId === tx.chainId
+    );
+  }
+
+  private start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+    void this.poll();
+  }
+
+  private stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async poll(): Promise<void> {
+    // A slow RPC must not stack up overlapping rounds
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      const pending = [...this.transactions.values()].filter(tx => !isTransactionSettled(tx));
+      if (pending.length === 0) {
+        this.stop();
+        return;
+      }
+      const blockNumber = await this.provider.getBlockNumber();
+      for (const tx of pending) {
+        try {
+          await this.refresh(tx.hash, blockNumber);
+        } catch (error) {
+          sdkLogger.warn(`Could not refresh transaction ${tx.hash}`, error);
+        }
+      }
+    } catch (error) {
+      sdkLogger.warn('Transaction polling failed', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async refresh(hash: string, blockNumber: number): Promise<void> {
+    // Re-read: a sibling settled earlier in this round may have settled this one too
+    const tx = this.transactions.get(hash);
+    if (!tx || isTransactionSettled(tx)) return;
+
+    const receipt = await this.provider.getTransactionReceipt(hash);
+    if (receipt) {
+      const confirmations = Math.max(1, blockNumber - receipt.blockNumber + 1);
+      const status = receipt.status === 0 ? 'failed' : confirmations >= this.confirmations ? 'confirmed' : 'mined';
+      // `mined` is always reported, even when the first receipt already has enough confirmations
+      const included = status === 'confirmed' && tx.status === 'submitted'
+        ? await this.update(tx, { status: 'mined', confirmations, blockNumber: receipt.blockNumber })
+        : tx;
+      const mined = await this.update(included, { status, confirmations, blockNumber: receipt.blockNumber });
+      await this.settleSiblings(mined);
+      return;
+    }
+
+    const current = tx.status === 'mined'
+      // The block was reorganized away; the transaction is back in the mempool or gone
+      ? await this.update(tx, { status: 'submitted', confirmations: 0, blockNumber: null })
+      : tx;
+
+    const nextNonce = await this.provider.getTransactionCount(current.from, 'latest');
+    if (nextNonce > current.nonce) {
+      // One of ours took the nonce if it has a receipt; it settles this one when refreshed
+      for (const sibling of this.siblings(current)) {
+        if (await this.provider.getTransactionReceipt(sibling.hash)) return;
+      }
+      // Mined between the first receipt lookup and the nonce read
+      if (await this.provider.getTransactionReceipt(hash)) return;
+      await this.update(current, { status: 'replaced', replacementReason: 'replaced' });
+      return;
+    }
+
+    if (Date.now() - current.submittedAt > this.dropAfterMs && !(await this.provider.getTransaction(hash))) {
+      await this.update(current, { status: 'dropped' });
+    }
+  }
+
+  private async settleSiblings(winner: TrackedTransaction): Promise<void> {
+    const replacementReason = winner.kind === 'cancel' ? 'cancelled' : 'repriced';
+    for (const sibling of this.siblings(winner)) {
+      if (sibling.status === 'submitted') {
+        await this.update(sibling, { status: 'replaced', replacedBy: winner.hash, replacementReason });
+      }
+    }
+  }
+
+  private async update(tx: TrackedTransaction, patch: Partial<TrackedTransaction>): Promise<TrackedTransaction> {
+    const next = { ...tx, ...patch };
+    if (next.status === tx.status && next.confirmations === tx.confirmations && next.blockNumber === tx.blockNumber) {
+      return tx;
+    }
+    next.updatedAt = Date.now();
+    this.transactions.set(tx.hash, next);
+    await this.persist(next);
+    this.emit(next);
+
+    if (isTransactionSettled(next)) {
+      sdkLogger.debug(`Transaction ${next.hash} ${next.status}`);
+      this.waiters.get(next.hash)?.forEach(({ resolve }) => resolve(next));
+      this.waiters.delete(next.hash);
+    }
+    return next;
+  }
+
+  private async persist(tx: TrackedTransaction): Promise<void> {
+    try {
+      const store = getTransactionStore();
+      await (isTransactionSettled(tx) ? store.delete(tx.hash) : store.put(tx));
+    } catch (error) {
+      sdkLogger.warn('Could not store pending transaction', error);
+    }
+  }
+
+  /**
+   * A throwing listener is logged and never stops tracking
+   */
+  private emit(tx: TrackedTransaction): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(tx);
+      } catch (error) {
+        sdkLogger.warn('Transaction listener threw', error);
+      }
+    }
+  }
+}
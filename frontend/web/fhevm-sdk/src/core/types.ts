@@ -0,0 +1,163 @@
+/**
+ * FHEVM Core Types - Universal SDK
+ * Typed surface of the relayer SDK instance used by every core function and hook
+ */
+
+import type { FhevmInstance as RelayerFhevmInstance } from '@zama-fhe/relayer-sdk/node';
+
+/**
+ * Cleartext value returned by the relayer for a decrypted handle
+ */
+export type ClearValueType = bigint | boolean | `0x${string}`;
+
+/**
+ * Decrypted values keyed by ciphertext handle
+ */
+export type ClearValues = Record<`0x${string}`, ClearValueType>;
+
+export type UserDecryptResults = ClearValues;
+
+/**
+ * Decrypted value typed by its encrypted type: `boolean` (ebool),
+ * checksummed address string (eaddress) or `bigint` (euint*)
+ */
+export type DecryptedValue = bigint | boolean | string;
+
+export interface PublicDecryptResults {
+  clearValues: ClearValues;
+  abiEncodedClearValues: `0x${string}`;
+  decryptionProof: `0x${string}`;
+}
+
+export interface HandleContractPair {
+  handle: Uint8Array | string;
+  contractAddress: string;
+}
+
+export interface FhevmKeypair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface EIP712Type {
+  name: string;
+  type: string;
+}
+
+export interface EIP712 {
+  domain: {
+    chainId: number;
+    name: string;
+    verifyingContract: string;
+    version: string;
+  };
+  message: any;
+  primaryType: string;
+  types: {
+    [key: string]: EIP712Type[];
+  };
+}
+
+/**
+ * Raw output of `FhevmEncryptedInput.encrypt()`
+ */
+export interface EncryptedInputResult {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+/**
+ * Builder returned by `FhevmInstance.createEncryptedInput`
+ */
+export interface FhevmEncryptedInput {
+  addBool(value: boolean | number | bigint): FhevmEncryptedInput;
+  add8(value: number | bigint): FhevmEncryptedInput;
+  add16(value: number | bigint): FhevmEncryptedInput;
+  add32(value: number | bigint): FhevmEncryptedInput;
+  add64(value: number | bigint): FhevmEncryptedInput;
+  add128(value: number | bigint): FhevmEncryptedInput;
+  add256(value: number | bigint): FhevmEncryptedInput;
+  addAddress(value: string): FhevmEncryptedInput;
+  getBits(): number[];
+  encrypt(): Promise<EncryptedInputResult>;
+}
+
+/**
+ * FHEVM instance created by the relayer SDK
+ */
+export interface FhevmInstance {
+  createEncryptedInput(contractAddress: string, userAddress: string): FhevmEncryptedInput;
+  generateKeypair(): FhevmKeypair;
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): EIP712;
+  userDecrypt(
+    handles: HandleContractPair[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<UserDecryptResults>;
+  publicDecrypt(handles: (string | Uint8Array)[]): Promise<PublicDecryptResults>;
+}
+
+/**
+ * An initialized instance, or the chain id it was registered under
+ */
+export type FhevmInstanceTarget = FhevmInstance | number;
+
+/**
+ * Per-call overrides of the call policy (see policy.ts)
+ */
+export interface FhevmCallControl {
+  /** Abort the call; waiting stops and FhevmAbortedError is thrown */
+  signal?: AbortSignal;
+  /** Timeout for each attempt, overriding the operation default */
+  timeoutMs?: number;
+  /** Retries on retryable failures, overriding the policy default */
+  retries?: number;
+}
+
+/**
+ * Options accepted by every core function
+ */
+export interface FhevmCallOptions extends FhevmCallControl {
+  /** Instance or chain id to use; defaults to the most recently initialized instance */
+  instance?: FhevmInstanceTarget;
+  /** Check ACL permissions on-chain before decrypting (see acl.ts); defaults to true */
+  aclCheck?: boolean;
+}
+
+/**
+ * Encrypted contract argument pair (matches showcase API)
+ */
+export interface EncryptedValue {
+  encryptedData: Uint8Array;
+  proof: Uint8Array;
+}
+
+/**
+ * Minimal signer needed for EIP-712 user decryption
+ */
+export interface DecryptionSigner {
+  getAddress(): Promise<string>;
+  signTypedData(
+    domain: EIP712['domain'],
+    types: Record<string, EIP712Type[]>,
+    value: Record<string, any>
+  ): Promise<string>;
+}
+
+/**
+ * Compile-time check that the relayer SDK instance still satisfies our interface.
+ * A breaking change in `@zama-fhe/relayer-sdk` fails the build here.
+ */
+export function asFhevmInstance(instance: RelayerFhevmInstance): FhevmInstance {
+  return instance;
+}
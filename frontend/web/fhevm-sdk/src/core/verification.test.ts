@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { publicDecryptAndVerify } from './verification.js';
+import type { PublicVerifyStage } from './verification.js';
+import { MockFheInstance } from './mock.js';
+import { encryptInputs } from './encryption.js';
+import { FhevmAbortedError } from './errors.js';
+import { registerFheInstance } from './registry.js';
+import type { FhevmInstance } from './types.js';
+
+const CONTRACT = '0x1111111111111111111111111111111111111111';
+const USER = '0x2222222222222222222222222222222222222222';
+
+async function encrypted(mock: MockFheInstance): Promise<string[]> {
+  const { handles } = await encryptInputs(CONTRACT, USER, { instance: mock }).u32(42).bool(true).encrypt();
+  return handles.map(({ handle }) => handle);
+}
+
+/**
+ * Submit function standing in for a contract's verify method
+ */
+function submitter() {
+  const receipt = { status: 1 } as ethers.TransactionReceipt;
+  return vi.fn(async (_abiEncodedClearValues: string, _decryptionProof: string) => ({
+    hash: ethers.ZeroHash,
+    wait: async () => receipt,
+  }) as unknown as ethers.ContractTransactionResponse);
+}
+
+/**
+ * Delegates to the mock without being one, so the proof pre-flight is not skipped for it
+ */
+function relayerLike(mock: MockFheInstance): FhevmInstance {
+  const instance = { publicDecrypt: mock.publicDecrypt.bind(mock) } as unknown as FhevmInstance;
+  registerFheInstance(mock.network.chainId, instance, 'https://relayer.example');
+  return instance;
+}
+
+describe('publicDecryptAndVerify', () => {
+  it('reports each stage in order and returns typed values', async () => {
+    const mock = new MockFheInstance();
+    const handles = await encrypted(mock);
+    const submit = submitter();
+    const stages: PublicVerifyStage[] = [];
+
+    const result = await publicDecryptAndVerify(handles, { instance: mock, submit, onStage: ({ stage }) => stages.push(stage) });
+
+    expect(stages).toEqual(['decrypting', 'decrypted', 'submitting', 'submitted', 'confirmed']);
+    expect(result.values).toEqual([42n, true]);
+    expect(submit).toHaveBeenCalledWith(result.decryptionResult.abiEncodedClearValues, result.decryptionResult.decryptionProof);
+    expect(result.transactionReceipt).toEqual({ status: 1 });
+  });
+
+  it('does not submit once aborted before submitting', async () => {
+    const mock = new MockFheInstance();
+    const controller = new AbortController();
+    const submit = submitter();
+    const stages: PublicVerifyStage[] = [];
+
+    await expect(publicDecryptAndVerify(await encrypted(mock), {
+      instance: mock,
+      submit,
+      signal: controller.signal,
+      onStage: ({ stage }) => {
+        stages.push(stage);
+        if (stage === 'decrypted') controller.abort();
+      },
+    })).rejects.toBeInstanceOf(FhevmAbortedError);
+
+    expect(submit).not.toHaveBeenCalled();
+    expect(stages).toEqual(['decrypting', 'decrypted', 'failed']);
+  });
+
+  it('skips the proof pre-flight with proofCheck: false', async () => {
+    const mock = new MockFheInstance();
+    const stages: PublicVerifyStage[] = [];
+
+    // The mock proof has no KMS signatures: any pre-flight of it would fail
+    await publicDecryptAndVerify(await encrypted(mock), {
+      instance: relayerLike(mock),
+      aclCheck: false,
+      proofCheck: false,
+      submit: submitter(),
+      onStage: ({ stage }) => stages.push(stage),
+    });
+    expect(stages).not.toContain('proof-verified');
+    expect(stages).toContain('submitted');
+  });
+
+  it('rejects an ABI encoding that does not match the cleartexts before submitting', async () => {
+    const mock = new MockFheInstance();
+    const handles = await encrypted(mock);
+    const publicDecrypt = mock.publicDecrypt.bind(mock);
+    vi.spyOn(mock, 'publicDecrypt').mockImplementation(async requested => ({
+      ...await publicDecrypt(requested),
+      abiEncodedClearValues: ethers.AbiCoder.defaultAbiCoder().encode(['uint32', 'bool'], [43, true]) as `0x${string}`,
+    }));
+    const submit = submitter();
+    const stages: PublicVerifyStage[] = [];
+
+    await expect(publicDecryptAndVerify(handles, { instance: mock, submit, onStage: ({ stage }) => stages.push(stage) }))
+      .rejects.toThrow('Relayer returned ABI-encoded cleartexts that do not match its 2 cleartext(s)');
+    expect(submit).not.toHaveBeenCalled();
+    expect(stages).toEqual(['decrypting', 'failed']);
+  });
+
+  it('decrypts and submits a repeated handle once', async () => {
+    const mock = new MockFheInstance();
+    const [handle] = await encrypted(mock);
+    const publicDecrypt = vi.spyOn(mock, 'publicDecrypt');
+
+    const result = await publicDecryptAndVerify([handle, handle.toUpperCase().replace('0X', '0x')], {
+      instance: mock,
+      submit: submitter(),
+    });
+
+    expect(publicDecrypt).toHaveBeenCalledWith([handle]);
+    expect(result.values).toEqual([42n, 42n]);
+  });
+});
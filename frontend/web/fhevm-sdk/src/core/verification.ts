@@ -0,0 +1,148 @@
+/**
+ * FHEVM Public Decryption Verification - Universal SDK
+ * Public-decrypt handles, then submit the cleartexts and KMS proof to a contract
+ * method such as `verifyScore(id, abiEncodedClearValues, decryptionProof)`
+ */
+
+import { ethers } from 'ethers';
+import { publicDecryptV09 } from './fhevm.js';
+import { abiEncodeClearValues, fheTypeOfHandle } from './handles.js';
+import { toDecryptedValue } from './fheTypes.js';
+import { classifyError } from './errors.js';
+import { raceAbort, throwIfAborted } from './policy.js';
+import { verifyDecryptionProof } from './proofs.js';
+import { sdkLogger } from './logger.js';
+import type { FhevmContract } from './contracts.js';
+import type { DecryptedValue, FhevmCallOptions, PublicDecryptResults } from './types.js';
+
+type Hex = `0x${string}`;
+
+export type PublicVerifyStage = 'decrypting' | 'decrypted' | 'proof-verified' | 'submitting' | 'submitted' | 'confirmed' | 'failed';
+
+export interface PublicVerifyEvent {
+  stage: PublicVerifyStage;
+  /** Set from `submitted` on */
+  txHash?: string;
+  /** Set when `stage` is `failed` */
+  error?: unknown;
+}
+
+/**
+ * Where the proof goes: a FhevmContract method called as
+ * `method(...args, abiEncodedClearValues, decryptionProof)`, or a custom submit function
+ */
+export type PublicVerifyTarget =
+  | { contract: FhevmContract; method: string; args?: unknown[] }
+  | { submit: (abiEncodedClearValues: Hex, decryptionProof: Hex) => Promise<ethers.ContractTransactionResponse> };
+
+export type PublicDecryptAndVerifyOptions = PublicVerifyTarget & FhevmCallOptions & {
+  /**
+   * Pre-flight of the KMS proof before the transaction is signed (see proofs.ts):
+   * `eth_call` (default) against the KMSVerifier, `local` signer recovery, or false to skip
+   */
+  proofCheck?: false | 'eth_call' | 'local';
+  /** Confirmations to wait for; 0 returns right after submission. Defaults to 1. */
+  confirmations?: number;
+  onStage?: (event: PublicVerifyEvent) => void;
+};
+
+export interface PublicDecryptAndVerifyResult {
+  decryptionResult: PublicDecryptResults;
+  /** Cleartexts in handle order, typed by each handle's encrypted type */
+  values: DecryptedValue[];
+  transaction: ethers.ContractTransactionResponse;
+  /** null when `confirmations` is 0 */
+  transactionReceipt: ethers.TransactionReceipt | null;
+}
+
+/**
+ * The proof only verifies against the exact encoding the KMS signed, so a relayer
+ * encoding that disagrees with its own cleartexts is rejected before paying for a transaction
+ */
+function assertResultShape(handles: string[], result: PublicDecryptResults): void {
+  const expected = abiEncodeClearValues(handles, result.clearValues);
+  if (expected.toLowerCase() !== result.abiEncodedClearValues.toLowerCase()) {
+    throw new Error(`Relayer returned ABI-encoded cleartexts that do not match its ${handles.length} cleartext(s)`);
+  }
+}
+
+/**
+ * Handles without repeats, first spelling kept. The relayer keys its cleartexts by handle,
+ * so a repeated handle is encoded (and signed by the KMS) once.
+ */
+function uniqueHandles(handles: string[]): string[] {
+  const seen = new Set<string>();
+  return handles.filter(handle => {
+    const key = handle.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Public-decrypt `handles` in one relayer request, check the result, submit the
+ * cleartexts and proof on-chain and wait for confirmation, reporting each stage.
+ * A handle listed twice is decrypted and submitted once; `values` still follows `handles`.
+ */
+export async function publicDecryptAndVerify(
+  handles: string[],
+  options: PublicDecryptAndVerifyOptions
+): Promise<PublicDecryptAndVerifyResult> {
+  if (handles.length === 0) throw new Error('No handles to decrypt');
+  const requested = uniqueHandles(handles);
+
+  const report = (event: PublicVerifyEvent) => {
+    sdkLogger.debug(`Public decrypt and verify: ${event.stage}`);
+    try {
+      options.onStage?.(event);
+    } catch (error) {
+      sdkLogger.warn('Verify stage listener threw', error);
+    }
+  };
+
+  try {
+    report({ stage: 'decrypting' });
+    const decryptionResult = await publicDecryptV09(requested, options);
+    assertResultShape(requested, decryptionResult);
+    report({ stage: 'decrypted' });
+
+    // A proof FHE.checkSignatures would reject must not cost the user a signature and gas
+    if (options.proofCheck !== false) {
+      const { abiEncodedClearValues, decryptionProof } = decryptionResult;
+      const verified = await verifyDecryptionProof(requested, abiEncodedClearValues, decryptionProof, {
+        instance: options.instance,
+        method: options.proofCheck,
+      });
+      if (verified) report({ stage: 'proof-verified' });
+    }
+
+    // Do not send the verification transaction once the caller has cancelled
+    throwIfAborted(options.signal);
+
+    report({ stage: 'submitting' });
+    const { abiEncodedClearValues, decryptionProof } = decryptionResult;
+    const transaction: ethers.ContractTransactionResponse = 'submit' in options
+      ? await options.submit(abiEncodedClearValues, decryptionProof)
+      : await options.contract.callMethod(options.method, ...(options.args ?? []), abiEncodedClearValues, decryptionProof);
+    report({ stage: 'submitted', txHash: transaction.hash });
+
+    // Aborting stops the wait, not the transaction: it may still be mined
+    const confirmations = options.confirmations ?? 1;
+    const transactionReceipt = confirmations > 0 ? await raceAbort(transaction.wait(confirmations), options.signal) : null;
+    if (confirmations > 0) report({ stage: 'confirmed', txHash: transaction.hash });
+
+    // Repeated handles (in any letter case) share the one cleartext
+    const clearValues = new Map(Object.entries(decryptionResult.clearValues).map(([handle, value]) => [handle.toLowerCase(), value]));
+    return {
+      decryptionResult,
+      values: handles.map(handle => toDecryptedValue(fheTypeOfHandle(handle), clearValues.get(handle.toLowerCase())!)),
+      transaction,
+      transactionReceipt,
+    };
+  } catch (cause) {
+    const error = classifyError(cause);
+    report({ stage: 'failed', error });
+    throw error;
+  }
+}
@@ -7,6 +7,6 @@
 export * from './core/index.js';
 
 // Framework adapters - explicit exports to avoid conflicts
-export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt, usePermits, useTransactions } from './adapters/react.js';
 
 
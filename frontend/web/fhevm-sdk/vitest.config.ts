@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// Without its own config, vitest would pick up the example app's vite.config.ts one directory up
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Retries, skipped pre-checks and mock instances log on purpose; failures still report in full
+    silent: true,
+    coverage: {
+      include: ['src/**/*.ts'],
+      exclude: ['src/**/*.test.ts', 'src/types/**'],
+    },
+  },
+});
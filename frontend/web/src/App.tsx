@@ -1,10 +1,12 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import { ABI, config, getContractReadOnly, getContractWithSigner } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { ethers } from 'ethers';
+import { useFhevm, useDecrypt, useTransactions, classifyError, createFhevmContract, ContractRevertError, FhevmAbortedError, InvalidDecryptionProofError, InvalidInputProofError, UserRejectedSignatureError } from '../fhevm-sdk/src';
+import type { FhevmInitStage } from '../fhevm-sdk/src';
 
 interface ContributionData {
   id: string;
@@ -20,6 +22,14 @@ interface ContributionData {
   category: string;
 }
 
+const INIT_STAGE_LABELS: Record<FhevmInitStage, string> = {
+  'sdk-loaded': 'Loading encryption WASM',
+  'wasm-ready': 'Fetching FHE public key',
+  'public-key-fetched': 'Creating FHE instance',
+  'instance-created': 'Ready',
+  'failed': 'Initialization failed',
+};
+
 interface UserStats {
   totalContributions: number;
   verifiedCount: number;
@@ -56,9 +66,11 @@ const App: React.FC = () => {
   const [history, setHistory] = useState<string[]>([]);
   const [leaderboard, setLeaderboard] = useState<{address: string, score: number}[]>([]);
 
-  const { status, initialize, isInitialized } = useFhevm();
-  const { encrypt, isEncrypting } = useEncrypt();
-  const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const { status, stage: fheStage, elapsedMs: fheElapsedMs, initialize, isInitialized } = useFhevm();
+  const { decryptAndVerify, cancel: cancelDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const [walletProvider] = useState(() => (window as any).ethereum ? new ethers.BrowserProvider((window as any).ethereum) : null);
+  const { pending: pendingTransactions, track: trackTransaction, wait: waitForTransaction, speedUp, cancel: cancelTransaction } = useTransactions(walletProvider);
+  const [dataVersion, setDataVersion] = useState(0);
 
   useEffect(() => {
     const initFhevm = async () => {
@@ -122,7 +134,7 @@ const App: React.FC = () => {
     };
 
     loadData();
-  }, [isConnected]);
+  }, [isConnected, dataVersion]);
 
   const calculateStats = (data: ContributionData[]) => {
     const userContributions = data.filter(c => c.creator.toLowerCase() === address?.toLowerCase());
@@ -167,27 +179,38 @@ const App: React.FC = () => {
     
     try {
       const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Contract not available");
+      if (!contract?.runner) throw new Error("Contract not available");
+      const fheContract = createFhevmContract(config.contractAddress, ABI, contract.runner);
       
       const scoreValue = parseInt(newContribution.score) || 0;
       const businessId = `contribution-${Date.now()}`;
       const categoryValue = newContribution.category === "development" ? 1 : 
                            newContribution.category === "governance" ? 2 : 3;
       
-      const encryptedResult = await encrypt(await contract.getAddress(), address, scoreValue);
-      
-      const tx = await contract.createBusinessData(
+      // The score is encrypted for its externalEuint32 parameter, the proof is filled in.
+      // Simulating first reports reverts such as an existing contribution before the user signs.
+      const prepared = await fheContract.simulate("createBusinessData", [
         businessId,
         newContribution.name,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
+        scoreValue,
         0,
         categoryValue,
         newContribution.description
-      );
+      ]);
+      const { estimatedCost } = prepared.fees;
+      showTransactionStatus("pending", estimatedCost !== null
+        ? `Confirm in wallet (est. fee ${Number(ethers.formatEther(estimatedCost)).toFixed(6)} ETH)`
+        : "Confirm in wallet...");
+      const tx = await prepared.send();
       
-      showTransactionStatus("pending", "Waiting for transaction...");
-      await tx.wait();
+      // Tracked until confirmed, replaced or dropped, also across a page reload
+      await trackTransaction(tx, `Create contribution: ${newContribution.name}`);
+      showTransactionStatus("pending", "Waiting for confirmation...");
+      const settled = await waitForTransaction(tx.hash);
+      if (settled.status !== "confirmed") {
+        showTransactionStatus("error", settled.replacementReason === "cancelled" ? "Transaction cancelled" : `Transaction ${settled.status}`);
+        return;
+      }
       
       addToHistory(`Created contribution: ${newContribution.name}`);
       showTransactionStatus("success", "Contribution created successfully!");
@@ -196,17 +219,32 @@ const App: React.FC = () => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
         setNewContribution({ name: "", score: "", category: "development", description: "" });
-        window.location.reload();
+        setDataVersion(version => version + 1);
       }, 2000);
       
-    } catch (e: any) {
-      const errorMsg = e.message?.includes("rejected") ? "Transaction rejected" : "Creation failed";
+    } catch (e) {
+      const error = classifyError(e);
+      const errorMsg = error instanceof UserRejectedSignatureError ? "Transaction rejected" :
+                       error instanceof InvalidInputProofError ? "Encrypted input proof rejected" :
+                       error instanceof ContractRevertError ? `Creation would fail: ${error.reason ?? "reverted"}` : "Creation failed";
       showTransactionStatus("error", errorMsg);
     } finally { 
       setCreatingContribution(false); 
     }
   };
 
+  const replaceTransaction = async (hash: string, action: "speedUp" | "cancel") => {
+    try {
+      const contract = await getContractWithSigner();
+      const signer = contract.runner as ethers.Signer;
+      await (action === "speedUp" ? speedUp(hash, signer) : cancelTransaction(hash, signer));
+      addToHistory(action === "speedUp" ? "Sped up pending transaction" : "Cancelled pending transaction");
+    } catch (e) {
+      const error = classifyError(e);
+      showTransactionStatus("error", error instanceof UserRejectedSignatureError ? "Transaction rejected" : "Could not replace transaction");
+    }
+  };
+
   const decryptContribution = async (contributionId: string) => {
     if (!isConnected || !address) { 
       showTransactionStatus("error", "Please connect wallet first");
@@ -228,25 +266,37 @@ const App: React.FC = () => {
       
       const encryptedValueHandle = await contractRead.getEncryptedValue(contributionId);
       
-      const result = await verifyDecryption(
-        [encryptedValueHandle],
-        await contractRead.getAddress(),
-        (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(contributionId, abiEncodedClearValues, decryptionProof)
-      );
+      const result = await decryptAndVerify([encryptedValueHandle], {
+        contract: createFhevmContract(config.contractAddress, ABI, contractWrite.runner!),
+        method: "verifyDecryption",
+        args: [contributionId],
+        onStage: ({ stage }) => {
+          if (stage === "submitting") showTransactionStatus("pending", "Submitting decryption proof...");
+          if (stage === "submitted") showTransactionStatus("pending", "Waiting for verification...");
+        }
+      });
       
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
+      const [clearValue] = result.values;
       addToHistory(`Decrypted contribution: ${selectedContribution?.name}`);
       showTransactionStatus("success", "Data decrypted successfully!");
       
       return Number(clearValue);
       
-    } catch (e: any) { 
-      if (e.message?.includes("already verified")) {
+    } catch (e) { 
+      const error = classifyError(e);
+      if (error instanceof FhevmAbortedError) {
+        showTransactionStatus("error", "Decryption cancelled");
+        return null;
+      }
+      if (error instanceof ContractRevertError && error.reason?.includes("already verified")) {
         showTransactionStatus("success", "Data already verified");
         return null;
       }
-      showTransactionStatus("error", "Decryption failed");
+      if (error instanceof InvalidDecryptionProofError) {
+        showTransactionStatus("error", "Decryption proof rejected by the KMS verifier");
+        return null;
+      }
+      showTransactionStatus("error", error instanceof UserRejectedSignatureError ? "Transaction rejected" : "Decryption failed");
       return null; 
     }
   };
@@ -325,11 +375,16 @@ const App: React.FC = () => {
     );
   }
 
-  if (loading) {
+  if (loading || status === 'loading') {
     return (
       <div className="loading-screen">
         <div className="metal-spinner"></div>
         <p>Initializing FHE Encryption System...</p>
+        {status === 'loading' && (
+          <p className="loading-stage">
+            {fheStage ? INIT_STAGE_LABELS[fheStage] : 'Loading FHE SDK'} · {(fheElapsedMs / 1000).toFixed(1)}s
+          </p>
+        )}
       </div>
     );
   }
@@ -477,6 +532,25 @@ const App: React.FC = () => {
               </div>
             </div>
             
+            {pendingTransactions.length > 0 && (
+              <div className="history-panel">
+                <h3>⏳ Pending Transactions</h3>
+                <div className="history-list">
+                  {pendingTransactions.map(tx => (
+                    <div key={tx.hash} className="history-item pending-transaction">
+                      <span>{tx.label ?? `${tx.hash.substring(0, 10)}...`} ({tx.kind === "cancel" ? "cancelling" : tx.status === "mined" ? `${tx.confirmations} conf.` : tx.status})</span>
+                      {tx.status === "submitted" && (
+                        <span className="pending-transaction-actions">
+                          <button onClick={() => replaceTransaction(tx.hash, "speedUp")}>Speed up</button>
+                          <button onClick={() => replaceTransaction(tx.hash, "cancel")}>Cancel</button>
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             <div className="history-panel">
               <h3>📜 Recent Activity</h3>
               <div className="history-list">
@@ -570,7 +644,7 @@ const App: React.FC = () => {
               <button onClick={() => setShowCreateModal(false)} className="cancel-btn">Cancel</button>
               <button 
                 onClick={createContribution}
-                disabled={creatingContribution || isEncrypting}
+                disabled={creatingContribution}
                 className="submit-btn"
               >
                 {creatingContribution ? "Encrypting..." : "Create Contribution"}
@@ -585,7 +659,7 @@ const App: React.FC = () => {
           <div className="detail-modal">
             <div className="modal-header">
               <h2>Contribution Details</h2>
-              <button onClick={() => setSelectedContribution(null)} className="close-btn">×</button>
+              <button onClick={() => { cancelDecryption(); setSelectedContribution(null); }} className="close-btn">×</button>
             </div>
             
             <div className="modal-body">
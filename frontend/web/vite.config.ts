@@ -1,8 +1,56 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
 import { defineConfig } from "vite";
+import type { Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+const WORKER_SELF_URL = 'new URL("workerHelpers.js", import.meta.url)';
+
+// The relayer SDK's worker spawns itself via `new URL("workerHelpers.js", import.meta.url)`,
+// which sends Vite's worker bundler into a loop. Inside that file the URL is its own.
+// The build fails if an SDK update changes that line, rather than shipping a looping worker.
+function relayerSdkWorker(): Plugin {
+  return {
+    name: "relayer-sdk-worker",
+    enforce: "pre",
+    transform(code, id) {
+      if (!id.includes("@zama-fhe/relayer-sdk/lib/workerHelpers.js")) return null;
+      if (!code.includes(WORKER_SELF_URL)) {
+        this.error(`${WORKER_SELF_URL} not found in ${id}; update the relayer-sdk-worker plugin for this SDK version`);
+      }
+      return code.replace(WORKER_SELF_URL, "import.meta.url");
+    },
+  };
+}
+
+// WASM files served at the SDK's local fallback URLs (/tfhe_bg.wasm, /kms_lib_bg.wasm, see
+// fhevm-sdk/src/core/assets.ts), taken from the installed relayer SDK so they always match it
+const RELAYER_SDK_LIB = join(dirname(createRequire(import.meta.url).resolve("@zama-fhe/relayer-sdk/package.json")), "lib");
+const RELAYER_SDK_WASM = ["tfhe_bg.wasm", "kms_lib_bg.wasm"];
+
+function relayerSdkWasm(): Plugin {
+  return {
+    name: "relayer-sdk-wasm",
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const file = RELAYER_SDK_WASM.find(name => req.url === `/${name}`);
+        if (!file) return next();
+        res.setHeader("Content-Type", "application/wasm");
+        res.end(readFileSync(join(RELAYER_SDK_LIB, file)));
+      });
+    },
+    generateBundle() {
+      for (const file of RELAYER_SDK_WASM) {
+        this.emitFile({ type: "asset", fileName: file, source: readFileSync(join(RELAYER_SDK_LIB, file)) });
+      }
+    },
+  };
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), relayerSdkWorker(), relayerSdkWasm()],
+  worker: { format: 'es', plugins: [relayerSdkWorker()] },
   define: {
     'process.env': process.env
   },
@@ -14,6 +62,8 @@ export default defineConfig({
   },
   optimizeDeps: {
     include: ['@base-org/account'],
+    // Keep the relayer SDK unbundled so its WASM files resolve next to the module instead of the Zama CDN
+    exclude: ['@zama-fhe/relayer-sdk'],
     esbuildOptions: {
       target: "es2022",
       supported: {